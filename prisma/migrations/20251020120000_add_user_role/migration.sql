@@ -0,0 +1,5 @@
+-- CreateEnum
+CREATE TYPE "public"."UserRole" AS ENUM ('CANDIDATE', 'ADMIN');
+
+-- AlterTable
+ALTER TABLE "public"."User" ADD COLUMN     "role" "public"."UserRole" NOT NULL DEFAULT 'CANDIDATE';
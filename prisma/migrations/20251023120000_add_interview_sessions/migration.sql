@@ -0,0 +1,45 @@
+-- CreateEnum
+CREATE TYPE "public"."InterviewMessageRole" AS ENUM ('INTERVIEWER', 'CANDIDATE');
+
+-- CreateTable
+CREATE TABLE "public"."InterviewSession" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "endedAt" TIMESTAMP(3),
+    "jobId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+
+    CONSTRAINT "InterviewSession_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."InterviewMessage" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "role" "public"."InterviewMessageRole" NOT NULL,
+    "content" TEXT NOT NULL,
+    "position" INTEGER NOT NULL,
+    "sessionId" TEXT NOT NULL,
+
+    CONSTRAINT "InterviewMessage_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "InterviewSession_jobId_idx" ON "public"."InterviewSession"("jobId");
+
+-- CreateIndex
+CREATE INDEX "InterviewSession_userId_idx" ON "public"."InterviewSession"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "InterviewMessage_sessionId_position_key" ON "public"."InterviewMessage"("sessionId", "position");
+
+-- AddForeignKey
+ALTER TABLE "public"."InterviewSession" ADD CONSTRAINT "InterviewSession_jobId_fkey" FOREIGN KEY ("jobId") REFERENCES "public"."Job"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."InterviewSession" ADD CONSTRAINT "InterviewSession_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."InterviewMessage" ADD CONSTRAINT "InterviewMessage_sessionId_fkey" FOREIGN KEY ("sessionId") REFERENCES "public"."InterviewSession"("id") ON DELETE CASCADE ON UPDATE CASCADE;
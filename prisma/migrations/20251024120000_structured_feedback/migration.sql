@@ -0,0 +1,28 @@
+-- AlterTable: converte as listas separadas por ponto e vírgula em arrays
+ALTER TABLE "public"."Job"
+ALTER COLUMN "feedbackStrengths" SET DATA TYPE TEXT[] USING CASE
+    WHEN "feedbackStrengths" IS NULL THEN ARRAY[]::TEXT[]
+    ELSE array_remove(regexp_split_to_array(trim("feedbackStrengths"), '\s*;\s*'), '')
+END,
+ALTER COLUMN "feedbackWeaknesses" SET DATA TYPE TEXT[] USING CASE
+    WHEN "feedbackWeaknesses" IS NULL THEN ARRAY[]::TEXT[]
+    ELSE array_remove(regexp_split_to_array(trim("feedbackWeaknesses"), '\s*;\s*'), '')
+END;
+
+-- CreateTable
+CREATE TABLE "public"."CompetencyScore" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "competency" TEXT NOT NULL,
+    "score" INTEGER NOT NULL,
+    "evidence" TEXT[],
+    "jobId" TEXT NOT NULL,
+
+    CONSTRAINT "CompetencyScore_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CompetencyScore_jobId_competency_key" ON "public"."CompetencyScore"("jobId", "competency");
+
+-- AddForeignKey
+ALTER TABLE "public"."CompetencyScore" ADD CONSTRAINT "CompetencyScore_jobId_fkey" FOREIGN KEY ("jobId") REFERENCES "public"."Job"("id") ON DELETE CASCADE ON UPDATE CASCADE;
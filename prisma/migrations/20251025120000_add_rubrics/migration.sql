@@ -0,0 +1,48 @@
+-- CreateEnum
+CREATE TYPE "public"."SeniorityLevel" AS ENUM ('INTERN', 'JUNIOR', 'MID', 'SENIOR', 'LEAD');
+
+-- AlterTable
+ALTER TABLE "public"."Job" ADD COLUMN     "rubricId" TEXT;
+
+-- CreateTable
+CREATE TABLE "public"."Rubric" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "seniority" "public"."SeniorityLevel",
+    "language" TEXT NOT NULL DEFAULT 'pt-BR',
+    "mustAskQuestions" TEXT[],
+    "userId" TEXT NOT NULL,
+
+    CONSTRAINT "Rubric_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."RubricCompetency" (
+    "id" TEXT NOT NULL,
+    "key" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "weight" INTEGER NOT NULL DEFAULT 1,
+    "position" INTEGER NOT NULL DEFAULT 0,
+    "rubricId" TEXT NOT NULL,
+
+    CONSTRAINT "RubricCompetency_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Rubric_userId_idx" ON "public"."Rubric"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RubricCompetency_rubricId_key_key" ON "public"."RubricCompetency"("rubricId", "key");
+
+-- AddForeignKey
+ALTER TABLE "public"."Job" ADD CONSTRAINT "Job_rubricId_fkey" FOREIGN KEY ("rubricId") REFERENCES "public"."Rubric"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."Rubric" ADD CONSTRAINT "Rubric_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."RubricCompetency" ADD CONSTRAINT "RubricCompetency_rubricId_fkey" FOREIGN KEY ("rubricId") REFERENCES "public"."Rubric"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,20 @@
+-- CreateEnum
+CREATE TYPE "public"."InterviewStatus" AS ENUM ('SCHEDULED', 'IN_PROGRESS', 'COMPLETED', 'EXPIRED', 'CANCELLED');
+
+-- AlterTable
+ALTER TABLE "public"."InterviewSession" ADD COLUMN     "expiresAt" TIMESTAMP(3),
+ADD COLUMN     "feedbackGeneratedAt" TIMESTAMP(3),
+ADD COLUMN     "status" "public"."InterviewStatus" NOT NULL DEFAULT 'SCHEDULED',
+ALTER COLUMN "startedAt" DROP NOT NULL,
+ALTER COLUMN "startedAt" DROP DEFAULT;
+
+-- Sessões existentes já foram iniciadas; as que têm fim registrado foram avaliadas
+UPDATE "public"."InterviewSession" AS s
+SET "status" = 'IN_PROGRESS',
+    "expiresAt" = s."startedAt" + (j."durationMinutes" * INTERVAL '1 minute')
+FROM "public"."Job" AS j
+WHERE j."id" = s."jobId" AND s."endedAt" IS NULL;
+UPDATE "public"."InterviewSession" SET "status" = 'COMPLETED', "feedbackGeneratedAt" = "endedAt" WHERE "endedAt" IS NOT NULL;
+
+-- CreateIndex
+CREATE INDEX "InterviewSession_status_expiresAt_idx" ON "public"."InterviewSession"("status", "expiresAt");
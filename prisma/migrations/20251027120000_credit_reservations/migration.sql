@@ -0,0 +1,15 @@
+-- AlterTable
+ALTER TABLE "public"."CreditTransaction" ADD COLUMN     "reservationKey" TEXT,
+ADD COLUMN     "sessionId" TEXT;
+
+-- O saldo nunca pode ficar negativo, mesmo com débitos concorrentes
+ALTER TABLE "public"."User" ADD CONSTRAINT "User_credits_non_negative" CHECK ("credits" >= 0);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CreditTransaction_reservationKey_key" ON "public"."CreditTransaction"("reservationKey");
+
+-- CreateIndex
+CREATE INDEX "CreditTransaction_sessionId_idx" ON "public"."CreditTransaction"("sessionId");
+
+-- AddForeignKey
+ALTER TABLE "public"."CreditTransaction" ADD CONSTRAINT "CreditTransaction_sessionId_fkey" FOREIGN KEY ("sessionId") REFERENCES "public"."InterviewSession"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "public"."CreditTransaction" ADD COLUMN     "refundOfId" TEXT,
+ADD COLUMN     "refundedAmount" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateIndex
+CREATE INDEX "CreditTransaction_refundOfId_idx" ON "public"."CreditTransaction"("refundOfId");
+
+-- AddForeignKey
+ALTER TABLE "public"."CreditTransaction" ADD CONSTRAINT "CreditTransaction_refundOfId_fkey" FOREIGN KEY ("refundOfId") REFERENCES "public"."CreditTransaction"("id") ON DELETE SET NULL ON UPDATE CASCADE;
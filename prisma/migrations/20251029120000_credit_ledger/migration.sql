@@ -0,0 +1,57 @@
+-- CreateTable
+CREATE TABLE "public"."LedgerEntry" (
+    "id" SERIAL NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "account" TEXT NOT NULL,
+    "amount" INTEGER NOT NULL,
+    "userId" TEXT,
+    "transactionId" TEXT,
+
+    CONSTRAINT "LedgerEntry_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."CreditBalanceSnapshot" (
+    "userId" TEXT NOT NULL,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "balance" INTEGER NOT NULL,
+    "lastEntryId" INTEGER NOT NULL,
+
+    CONSTRAINT "CreditBalanceSnapshot_pkey" PRIMARY KEY ("userId")
+);
+
+-- CreateIndex
+CREATE INDEX "LedgerEntry_userId_id_idx" ON "public"."LedgerEntry"("userId", "id");
+
+-- CreateIndex
+CREATE INDEX "LedgerEntry_transactionId_idx" ON "public"."LedgerEntry"("transactionId");
+
+-- CreateIndex
+CREATE INDEX "LedgerEntry_account_idx" ON "public"."LedgerEntry"("account");
+
+-- AddForeignKey
+ALTER TABLE "public"."LedgerEntry" ADD CONSTRAINT "LedgerEntry_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."LedgerEntry" ADD CONSTRAINT "LedgerEntry_transactionId_fkey" FOREIGN KEY ("transactionId") REFERENCES "public"."CreditTransaction"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."CreditBalanceSnapshot" ADD CONSTRAINT "CreditBalanceSnapshot_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- O livro-razão é somente inclusão: alterações e exclusões são rejeitadas pelo banco
+CREATE FUNCTION "public"."ledger_entry_append_only"() RETURNS trigger AS $$
+BEGIN
+    RAISE EXCEPTION 'LedgerEntry é somente inclusão (operação % rejeitada)', TG_OP;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER "LedgerEntry_append_only"
+BEFORE UPDATE OR DELETE ON "public"."LedgerEntry"
+FOR EACH ROW EXECUTE FUNCTION "public"."ledger_entry_append_only"();
+
+-- Saldos existentes entram no livro-razão como abertura
+INSERT INTO "public"."LedgerEntry" ("account", "amount", "userId")
+SELECT 'user:' || "id", "credits", "id" FROM "public"."User" WHERE "credits" <> 0;
+
+INSERT INTO "public"."LedgerEntry" ("account", "amount")
+SELECT 'system:opening', -SUM("credits") FROM "public"."User" HAVING SUM("credits") <> 0;
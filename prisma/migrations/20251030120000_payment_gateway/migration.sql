@@ -0,0 +1,17 @@
+-- AlterTable
+ALTER TABLE "public"."CreditTransaction" ADD COLUMN     "paymentProvider" TEXT;
+
+-- CreateTable
+CREATE TABLE "public"."PaymentWebhookEvent" (
+    "id" TEXT NOT NULL,
+    "receivedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "provider" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "paymentId" TEXT NOT NULL,
+    "transactionId" TEXT,
+
+    CONSTRAINT "PaymentWebhookEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "CreditTransaction_paymentProvider_paymentId_idx" ON "public"."CreditTransaction"("paymentProvider", "paymentId");
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "public"."CreditTransaction" ADD COLUMN     "expiresAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "CreditTransaction_status_expiresAt_idx" ON "public"."CreditTransaction"("status", "expiresAt");
@@ -0,0 +1,68 @@
+-- CreateEnum
+CREATE TYPE "public"."CouponDiscountType" AS ENUM ('PERCENTAGE', 'FIXED');
+
+-- CreateTable
+CREATE TABLE "public"."Coupon" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "code" TEXT NOT NULL,
+    "description" TEXT,
+    "discountType" "public"."CouponDiscountType",
+    "discountValue" DECIMAL(10,2),
+    "bonusCredits" INTEGER NOT NULL DEFAULT 0,
+    "maxRedemptions" INTEGER,
+    "perUserLimit" INTEGER DEFAULT 1,
+    "redemptionCount" INTEGER NOT NULL DEFAULT 0,
+    "validFrom" TIMESTAMP(3),
+    "validUntil" TIMESTAMP(3),
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+
+    CONSTRAINT "Coupon_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."CouponRedemption" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "couponId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "transactionId" TEXT NOT NULL,
+
+    CONSTRAINT "CouponRedemption_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."_CouponToCreditPackage" (
+    "A" TEXT NOT NULL,
+    "B" TEXT NOT NULL,
+
+    CONSTRAINT "_CouponToCreditPackage_AB_pkey" PRIMARY KEY ("A","B")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Coupon_code_key" ON "public"."Coupon"("code");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CouponRedemption_transactionId_key" ON "public"."CouponRedemption"("transactionId");
+
+-- CreateIndex
+CREATE INDEX "CouponRedemption_couponId_userId_idx" ON "public"."CouponRedemption"("couponId", "userId");
+
+-- CreateIndex
+CREATE INDEX "_CouponToCreditPackage_B_index" ON "public"."_CouponToCreditPackage"("B");
+
+-- AddForeignKey
+ALTER TABLE "public"."CouponRedemption" ADD CONSTRAINT "CouponRedemption_couponId_fkey" FOREIGN KEY ("couponId") REFERENCES "public"."Coupon"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."CouponRedemption" ADD CONSTRAINT "CouponRedemption_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."CouponRedemption" ADD CONSTRAINT "CouponRedemption_transactionId_fkey" FOREIGN KEY ("transactionId") REFERENCES "public"."CreditTransaction"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."_CouponToCreditPackage" ADD CONSTRAINT "_CouponToCreditPackage_A_fkey" FOREIGN KEY ("A") REFERENCES "public"."Coupon"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."_CouponToCreditPackage" ADD CONSTRAINT "_CouponToCreditPackage_B_fkey" FOREIGN KEY ("B") REFERENCES "public"."CreditPackage"("id") ON DELETE CASCADE ON UPDATE CASCADE;
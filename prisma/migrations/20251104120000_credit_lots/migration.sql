@@ -0,0 +1,64 @@
+-- AlterEnum
+ALTER TYPE "public"."TransactionType" ADD VALUE 'EXPIRATION';
+
+-- AlterTable
+ALTER TABLE "public"."CreditPackage" ADD COLUMN     "validityDays" INTEGER;
+
+-- CreateTable
+CREATE TABLE "public"."CreditLot" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "userId" TEXT NOT NULL,
+    "transactionId" TEXT,
+    "amount" INTEGER NOT NULL,
+    "remaining" INTEGER NOT NULL,
+    "expiresAt" TIMESTAMP(3),
+
+    CONSTRAINT "CreditLot_pkey" PRIMARY KEY ("id"),
+    CONSTRAINT "CreditLot_remaining_check" CHECK ("remaining" >= 0)
+);
+
+-- CreateTable
+CREATE TABLE "public"."CreditLotUsage" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lotId" TEXT NOT NULL,
+    "transactionId" TEXT NOT NULL,
+    "amount" INTEGER NOT NULL,
+
+    CONSTRAINT "CreditLotUsage_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "CreditLot_userId_expiresAt_idx" ON "public"."CreditLot"("userId", "expiresAt");
+
+-- CreateIndex
+CREATE INDEX "CreditLot_expiresAt_idx" ON "public"."CreditLot"("expiresAt");
+
+-- CreateIndex
+CREATE INDEX "CreditLot_transactionId_idx" ON "public"."CreditLot"("transactionId");
+
+-- CreateIndex
+CREATE INDEX "CreditLotUsage_lotId_idx" ON "public"."CreditLotUsage"("lotId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CreditLotUsage_transactionId_lotId_key" ON "public"."CreditLotUsage"("transactionId", "lotId");
+
+-- AddForeignKey
+ALTER TABLE "public"."CreditLot" ADD CONSTRAINT "CreditLot_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."CreditLot" ADD CONSTRAINT "CreditLot_transactionId_fkey" FOREIGN KEY ("transactionId") REFERENCES "public"."CreditTransaction"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."CreditLotUsage" ADD CONSTRAINT "CreditLotUsage_lotId_fkey" FOREIGN KEY ("lotId") REFERENCES "public"."CreditLot"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."CreditLotUsage" ADD CONSTRAINT "CreditLotUsage_transactionId_fkey" FOREIGN KEY ("transactionId") REFERENCES "public"."CreditTransaction"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- Saldos existentes viram um lote de abertura sem vencimento
+INSERT INTO "public"."CreditLot" ("id", "updatedAt", "userId", "amount", "remaining")
+SELECT gen_random_uuid()::text, CURRENT_TIMESTAMP, "id", "credits", "credits"
+FROM "public"."User"
+WHERE "credits" > 0;
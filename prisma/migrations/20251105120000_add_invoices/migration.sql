@@ -0,0 +1,41 @@
+-- CreateEnum
+CREATE TYPE "public"."InvoiceKind" AS ENUM ('INVOICE', 'CREDIT_NOTE');
+
+-- CreateTable
+CREATE TABLE "public"."Invoice" (
+    "id" TEXT NOT NULL,
+    "issuedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "kind" "public"."InvoiceKind" NOT NULL,
+    "number" INTEGER NOT NULL,
+    "transactionId" TEXT NOT NULL,
+    "invoiceOfId" TEXT,
+    "userId" TEXT NOT NULL,
+    "buyerName" TEXT NOT NULL,
+    "buyerEmail" TEXT NOT NULL,
+    "description" TEXT NOT NULL,
+    "credits" INTEGER NOT NULL,
+    "subtotal" DECIMAL(10,2) NOT NULL,
+    "discount" DECIMAL(10,2) NOT NULL DEFAULT 0,
+    "total" DECIMAL(10,2) NOT NULL,
+    "paymentMethod" TEXT,
+
+    CONSTRAINT "Invoice_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Invoice_transactionId_key" ON "public"."Invoice"("transactionId");
+
+-- CreateIndex
+CREATE INDEX "Invoice_userId_issuedAt_idx" ON "public"."Invoice"("userId", "issuedAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Invoice_kind_number_key" ON "public"."Invoice"("kind", "number");
+
+-- AddForeignKey
+ALTER TABLE "public"."Invoice" ADD CONSTRAINT "Invoice_transactionId_fkey" FOREIGN KEY ("transactionId") REFERENCES "public"."CreditTransaction"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."Invoice" ADD CONSTRAINT "Invoice_invoiceOfId_fkey" FOREIGN KEY ("invoiceOfId") REFERENCES "public"."Invoice"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."Invoice" ADD CONSTRAINT "Invoice_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,9 @@
+-- DropIndex
+DROP INDEX "public"."Job_userId_idx";
+
+-- AlterTable
+ALTER TABLE "public"."Job" ADD COLUMN     "archivedAt" TIMESTAMP(3),
+ADD COLUMN     "deletedAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "Job_userId_deletedAt_archivedAt_idx" ON "public"."Job"("userId", "deletedAt", "archivedAt");
@@ -0,0 +1,13 @@
+-- CreateEnum
+CREATE TYPE "public"."ScheduleStatus" AS ENUM ('SCHEDULED', 'CANCELLED');
+
+-- AlterTable
+ALTER TABLE "public"."Schedule" ADD COLUMN     "cancelledAt" TIMESTAMP(3),
+ADD COLUMN     "sessionId" TEXT,
+ADD COLUMN     "status" "public"."ScheduleStatus" NOT NULL DEFAULT 'SCHEDULED';
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Schedule_sessionId_key" ON "public"."Schedule"("sessionId");
+
+-- AddForeignKey
+ALTER TABLE "public"."Schedule" ADD CONSTRAINT "Schedule_sessionId_fkey" FOREIGN KEY ("sessionId") REFERENCES "public"."InterviewSession"("id") ON DELETE SET NULL ON UPDATE CASCADE;
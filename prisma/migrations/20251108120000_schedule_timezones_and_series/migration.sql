@@ -0,0 +1,39 @@
+-- AlterTable
+ALTER TABLE "public"."User" ADD COLUMN     "timezone" TEXT NOT NULL DEFAULT 'America/Sao_Paulo';
+
+-- AlterTable
+ALTER TABLE "public"."Schedule" ADD COLUMN     "seriesId" TEXT,
+ADD COLUMN     "timezone" TEXT NOT NULL DEFAULT 'America/Sao_Paulo';
+
+-- CreateTable
+CREATE TABLE "public"."ScheduleSeries" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "title" TEXT NOT NULL,
+    "weekdays" INTEGER[],
+    "localTime" TEXT NOT NULL,
+    "startsOn" DATE NOT NULL,
+    "weeks" INTEGER NOT NULL,
+    "timezone" TEXT NOT NULL,
+    "cancelledAt" TIMESTAMP(3),
+    "userId" TEXT NOT NULL,
+    "jobId" TEXT NOT NULL,
+
+    CONSTRAINT "ScheduleSeries_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Schedule_seriesId_idx" ON "public"."Schedule"("seriesId");
+
+-- CreateIndex
+CREATE INDEX "ScheduleSeries_userId_idx" ON "public"."ScheduleSeries"("userId");
+
+-- AddForeignKey
+ALTER TABLE "public"."Schedule" ADD CONSTRAINT "Schedule_seriesId_fkey" FOREIGN KEY ("seriesId") REFERENCES "public"."ScheduleSeries"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."ScheduleSeries" ADD CONSTRAINT "ScheduleSeries_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."ScheduleSeries" ADD CONSTRAINT "ScheduleSeries_jobId_fkey" FOREIGN KEY ("jobId") REFERENCES "public"."Job"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "public"."User" ADD COLUMN     "calendarTokenHash" TEXT;
+
+-- AlterTable
+ALTER TABLE "public"."Schedule" ADD COLUMN     "sequence" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "User_calendarTokenHash_key" ON "public"."User"("calendarTokenHash");
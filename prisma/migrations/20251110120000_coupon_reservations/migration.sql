@@ -0,0 +1,5 @@
+-- CreateEnum
+CREATE TYPE "public"."CouponRedemptionStatus" AS ENUM ('RESERVED', 'REDEEMED');
+
+-- AlterTable
+ALTER TABLE "public"."CouponRedemption" ADD COLUMN     "status" "public"."CouponRedemptionStatus" NOT NULL DEFAULT 'REDEEMED';
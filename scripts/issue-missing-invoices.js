@@ -0,0 +1,21 @@
+const { prisma } = require('../dist/lib/prisma');
+const { issueMissingInvoices } = require('../dist/payments/invoices');
+
+// Emite as faturas e notas de crédito que faltam para compras e estornos já concluídos
+// (ex.: anteriores à emissão automática), em ordem cronológica.
+// Requer o build (npm run build). Uso: node scripts/issue-missing-invoices.js [userId]
+async function issueMissing(userId) {
+  try {
+    const issued = await issueMissingInvoices(userId);
+    console.log(issued > 0 ? `✅ ${issued} documento(s) emitido(s).` : '✅ Nenhum documento pendente.');
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+if (require.main === module) {
+  issueMissing(process.argv[2]).catch((error) => {
+    console.error('❌ Erro ao emitir documentos:', error);
+    process.exit(1);
+  });
+}
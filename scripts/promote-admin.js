@@ -0,0 +1,31 @@
+const { PrismaClient } = require('../generated/prisma');
+
+const prisma = new PrismaClient();
+
+// Uso: node scripts/promote-admin.js usuario@exemplo.com
+async function promoteAdmin(email) {
+  try {
+    const user = await prisma.user.update({
+      where: { email },
+      data: { role: 'ADMIN' },
+      select: { id: true, email: true, role: true },
+    });
+    console.log(`✅ ${user.email} agora é ${user.role}. Faça login novamente para obter um token atualizado.`);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+if (require.main === module) {
+  const email = process.argv[2];
+  if (!email) {
+    console.error('Informe o e-mail do usuário: node scripts/promote-admin.js <email>');
+    process.exit(1);
+  }
+  promoteAdmin(email).catch((error) => {
+    console.error('❌ Erro ao promover usuário:', error);
+    process.exit(1);
+  });
+}
+
+module.exports = { promoteAdmin };
@@ -0,0 +1,86 @@
+const { PrismaClient } = require('../generated/prisma');
+
+const prisma = new PrismaClient();
+
+// Compara, por usuário, o saldo em User.credits com:
+// - a soma dos lançamentos do livro-razão (LedgerEntry)
+// - a soma das transações concluídas (mais as reservas pendentes, que já foram debitadas)
+// - a soma dos créditos restantes nos lotes (CreditLot)
+// Uso: node scripts/reconcile-credits.js   (sai com código 1 se houver divergência)
+async function reconcileCredits() {
+  try {
+    const drift = await prisma.$queryRaw`
+      SELECT u."id", u."email", u."credits" AS "counter",
+             COALESCE(l."balance", 0)::int AS "ledger",
+             COALESCE(t."balance", 0)::int AS "transactions",
+             COALESCE(c."balance", 0)::int AS "lots"
+      FROM "User" u
+      LEFT JOIN (
+        SELECT "userId", SUM("amount") AS "balance"
+        FROM "LedgerEntry" WHERE "userId" IS NOT NULL
+        GROUP BY "userId"
+      ) l ON l."userId" = u."id"
+      LEFT JOIN (
+        SELECT "userId", SUM("amount") AS "balance"
+        FROM "CreditTransaction"
+        WHERE "status" = 'COMPLETED' OR ("type" = 'CONSUMPTION' AND "status" = 'PENDING')
+        GROUP BY "userId"
+      ) t ON t."userId" = u."id"
+      LEFT JOIN (
+        SELECT "userId", SUM("remaining") AS "balance"
+        FROM "CreditLot"
+        GROUP BY "userId"
+      ) c ON c."userId" = u."id"
+      WHERE u."credits" <> COALESCE(l."balance", 0)
+         OR u."credits" <> COALESCE(t."balance", 0)
+         OR u."credits" <> COALESCE(c."balance", 0)
+      ORDER BY u."email"
+    `;
+
+    // Em partidas dobradas, a soma de cada transação (e do livro inteiro) é zero
+    const unbalanced = await prisma.$queryRaw`
+      SELECT "transactionId", SUM("amount")::int AS "total"
+      FROM "LedgerEntry"
+      GROUP BY "transactionId"
+      HAVING SUM("amount") <> 0
+    `;
+
+    if (drift.length === 0 && unbalanced.length === 0) {
+      console.log('✅ Saldos conciliados: nenhuma divergência encontrada.');
+      return true;
+    }
+
+    if (drift.length > 0) {
+      console.log(`⚠️ ${drift.length} usuário(s) com saldo divergente:`);
+      console.table(drift.map((row) => ({
+        usuario: row.email,
+        'User.credits': row.counter,
+        'livro-razão': row.ledger,
+        'transações': row.transactions,
+        lotes: row.lots,
+      })));
+    }
+
+    if (unbalanced.length > 0) {
+      console.log(`⚠️ ${unbalanced.length} lançamento(s) sem contrapartida:`);
+      console.table(unbalanced.map((row) => ({
+        transacao: row.transactionId ?? '(abertura)',
+        soma: row.total,
+      })));
+    }
+    return false;
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+if (require.main === module) {
+  reconcileCredits()
+    .then((ok) => process.exit(ok ? 0 : 1))
+    .catch((error) => {
+      console.error('❌ Erro ao conciliar créditos:', error);
+      process.exit(1);
+    });
+}
+
+module.exports = { reconcileCredits };
@@ -0,0 +1,170 @@
+import { z } from "zod";
+import { Prisma } from "../../generated/prisma";
+import { prisma } from "../lib/prisma";
+import { getLlmProvider } from "./llm";
+import {
+  InterviewJob,
+  InterviewRubric,
+  TranscriptMessage,
+  buildFeedbackPrompt,
+  buildFeedbackRepairPrompt,
+} from "./prompts";
+
+// Competências avaliadas quando a vaga não tem roteiro
+export const DEFAULT_COMPETENCIES = ["communication", "technical_depth", "problem_solving", "culture_fit"];
+
+const MAX_REPAIR_ATTEMPTS = 2;
+
+export const competencyScoreSchema = z.object({
+  competency: z.string().min(1),
+  score: z.number().int().min(0).max(10),
+  evidence: z.array(z.string().min(1)),
+});
+
+export const feedbackSchema = z.object({
+  summary: z.string().min(1),
+  strengths: z.array(z.string().min(1)).min(1),
+  weaknesses: z.array(z.string().min(1)).min(1),
+  score: z.number().int().min(0).max(10),
+  competencies: z.array(competencyScoreSchema),
+});
+
+export type InterviewFeedback = z.infer<typeof feedbackSchema>;
+
+export class FeedbackValidationError extends Error {
+  constructor(message: string, readonly rawOutput: string) {
+    super(message);
+    this.name = "FeedbackValidationError";
+  }
+}
+
+function normalize(text: string): string {
+  return text.toLowerCase().replace(/\s+/g, " ").trim();
+}
+
+// Chaves que aparecem mais de uma vez na lista de notas
+export function duplicateCompetencies(scores: { competency: string }[]): string[] {
+  const seen = new Set<string>();
+  const duplicated = new Set<string>();
+  for (const { competency } of scores) {
+    if (seen.has(competency)) duplicated.add(competency);
+    seen.add(competency);
+  }
+  return [...duplicated];
+}
+
+// Valida a saída do modelo; retorna o feedback ou a lista de problemas encontrados
+function parseFeedback(
+  output: string,
+  competencies: string[],
+): { feedback: InterviewFeedback } | { problems: string[] } {
+  let json: unknown;
+  try {
+    json = JSON.parse(output.replace(/```json|```/g, "").trim());
+  } catch {
+    return { problems: ["A resposta não é um JSON válido."] };
+  }
+
+  const result = feedbackSchema.safeParse(json);
+  if (!result.success) {
+    return { problems: result.error.issues.map((i) => `${i.path.join(".") || "(raiz)"}: ${i.message}`) };
+  }
+
+  // Cada competência esperada aparece exatamente uma vez: repetições violariam a nota única
+  // por vaga, e chaves fora da lista não entram na nota ponderada
+  const received = new Set(result.data.competencies.map((c) => c.competency));
+  const problems: string[] = [];
+  const missing = competencies.filter((c) => !received.has(c));
+  if (missing.length > 0) {
+    problems.push(`Competências ausentes em "competencies": ${missing.join(", ")}.`);
+  }
+  const duplicated = duplicateCompetencies(result.data.competencies);
+  if (duplicated.length > 0) {
+    problems.push(`Competências repetidas em "competencies": ${duplicated.join(", ")}.`);
+  }
+  const unknown = [...received].filter((c) => !competencies.includes(c));
+  if (unknown.length > 0) {
+    problems.push(`Competências não previstas em "competencies": ${unknown.join(", ")}.`);
+  }
+  if (problems.length > 0) return { problems };
+
+  return { feedback: result.data };
+}
+
+// Mantém apenas as evidências que realmente aparecem nas respostas do candidato
+function keepVerifiedEvidence(feedback: InterviewFeedback, messages: TranscriptMessage[]): InterviewFeedback {
+  const answers = messages.filter((m) => m.role === "CANDIDATE").map((m) => normalize(m.content));
+  return {
+    ...feedback,
+    competencies: feedback.competencies.map((c) => ({
+      ...c,
+      evidence: c.evidence.filter((quote) => answers.some((answer) => answer.includes(normalize(quote)))),
+    })),
+  };
+}
+
+// Com roteiro, a nota geral é a média das competências ponderada pelos pesos definidos
+function applyRubricWeights(feedback: InterviewFeedback, rubric: InterviewRubric): InterviewFeedback {
+  const weights = new Map(rubric.competencies.map((c) => [c.key, c.weight]));
+  let total = 0;
+  let weightSum = 0;
+  for (const c of feedback.competencies) {
+    const weight = weights.get(c.competency);
+    if (weight === undefined) continue;
+    total += c.score * weight;
+    weightSum += weight;
+  }
+  if (weightSum === 0) return feedback;
+  return { ...feedback, score: Math.round(total / weightSum) };
+}
+
+// Gera o feedback estruturado; saídas inválidas são devolvidas ao modelo para correção
+export async function generateFeedback(job: InterviewJob, messages: TranscriptMessage[]): Promise<InterviewFeedback> {
+  const rubric = job.rubric?.competencies.length ? job.rubric : null;
+  const competencies = rubric ? rubric.competencies.map((c) => c.key) : DEFAULT_COMPETENCIES;
+  const llm = getLlmProvider();
+  let output = await llm.generate(buildFeedbackPrompt(job, messages, competencies), { responseFormat: "json" });
+
+  for (let attempt = 0; ; attempt++) {
+    const parsed = parseFeedback(output, competencies);
+    if ("feedback" in parsed) {
+      const feedback = keepVerifiedEvidence(parsed.feedback, messages);
+      return rubric ? applyRubricWeights(feedback, rubric) : feedback;
+    }
+
+    console.warn(`⚠️ Feedback inválido (tentativa ${attempt + 1}):`, parsed.problems);
+    if (attempt >= MAX_REPAIR_ATTEMPTS) {
+      throw new FeedbackValidationError(`Feedback inválido: ${parsed.problems.join(" ")}`, output);
+    }
+
+    output = await llm.generate(buildFeedbackRepairPrompt(output, parsed.problems, competencies), {
+      responseFormat: "json",
+    });
+  }
+}
+
+// Grava o feedback na vaga, substituindo as notas por competência anteriores
+export async function saveJobFeedback(
+  jobId: string,
+  feedback: InterviewFeedback,
+  client: Prisma.TransactionClient = prisma,
+) {
+  await client.competencyScore.deleteMany({ where: { jobId } });
+  return client.job.update({
+    where: { id: jobId },
+    data: {
+      feedbackSummary: feedback.summary,
+      feedbackStrengths: feedback.strengths,
+      feedbackWeaknesses: feedback.weaknesses,
+      feedbackScore: feedback.score,
+      competencyScores: {
+        create: feedback.competencies.map((c) => ({
+          competency: c.competency,
+          score: c.score,
+          evidence: c.evidence,
+        })),
+      },
+    },
+    include: { competencyScores: { orderBy: { competency: "asc" } } },
+  });
+}
@@ -0,0 +1,117 @@
+import { InterviewStatus, Prisma } from "../../generated/prisma";
+import { commitReservation, releaseReservation, sessionReservationKey } from "../credits/reservations";
+import { inTransaction, prisma } from "../lib/prisma";
+
+// Transições permitidas a partir de cada estado; estados finais não têm saída
+const TRANSITIONS: Record<InterviewStatus, InterviewStatus[]> = {
+  SCHEDULED: ["IN_PROGRESS", "CANCELLED", "EXPIRED"],
+  IN_PROGRESS: ["COMPLETED", "EXPIRED", "CANCELLED"],
+  COMPLETED: [],
+  EXPIRED: [],
+  CANCELLED: [],
+};
+
+export function canTransition(from: InterviewStatus, to: InterviewStatus): boolean {
+  return TRANSITIONS[from].includes(to);
+}
+
+function sourcesOf(to: InterviewStatus): InterviewStatus[] {
+  return (Object.keys(TRANSITIONS) as InterviewStatus[]).filter((from) => canTransition(from, to));
+}
+
+// Créditos reservados no início: confirmados ao concluir/expirar, devolvidos ao cancelar
+async function settleCredits(
+  sessionId: string,
+  status: InterviewStatus,
+  reason: string,
+  tx: Prisma.TransactionClient,
+): Promise<void> {
+  const key = sessionReservationKey(sessionId);
+  if (status === "COMPLETED" || status === "EXPIRED") {
+    await commitReservation(key, tx);
+  } else if (status === "CANCELLED") {
+    await releaseReservation(key, reason, tx);
+  }
+}
+
+// Aplica a transição de forma atômica: só altera se o estado atual ainda permitir.
+// Retorna false se outra requisição (ou o timer) mudou o estado antes.
+export async function transitionSession(
+  sessionId: string,
+  to: InterviewStatus,
+  data: Prisma.InterviewSessionUpdateManyMutationInput = {},
+  client: Prisma.TransactionClient = prisma,
+  reason = "Entrevista cancelada",
+): Promise<boolean> {
+  return inTransaction(client, async (tx) => {
+    const { count } = await tx.interviewSession.updateMany({
+      where: { id: sessionId, status: { in: sourcesOf(to) } },
+      data: { ...data, status: to },
+    });
+    if (count !== 1) return false;
+    await settleCredits(sessionId, to, reason, tx);
+    return true;
+  });
+}
+
+const expiryTimers = new Map<string, NodeJS.Timeout>();
+
+export async function expireSession(sessionId: string): Promise<boolean> {
+  clearSessionExpiry(sessionId);
+  return transitionSession(sessionId, "EXPIRED", { endedAt: new Date() });
+}
+
+// Encerra a entrevista por falha do sistema (ex.: serviço de IA indisponível) e devolve os créditos
+export async function failSession(sessionId: string, reason: string): Promise<boolean> {
+  clearSessionExpiry(sessionId);
+  return transitionSession(sessionId, "CANCELLED", { endedAt: new Date() }, prisma, reason);
+}
+
+// Encerra a sessão automaticamente quando o tempo da entrevista acabar
+export function scheduleSessionExpiry(sessionId: string, expiresAt: Date): void {
+  clearSessionExpiry(sessionId);
+  const timer = setTimeout(() => {
+    expireSession(sessionId).catch((err: unknown) => {
+      console.error(`Erro ao expirar sessão ${sessionId}:`, err);
+    });
+  }, Math.max(0, expiresAt.getTime() - Date.now()));
+  timer.unref();
+  expiryTimers.set(sessionId, timer);
+}
+
+export function clearSessionExpiry(sessionId: string): void {
+  const timer = expiryTimers.get(sessionId);
+  if (timer) {
+    clearTimeout(timer);
+    expiryTimers.delete(sessionId);
+  }
+}
+
+// Varredura periódica: cobre sessões cujos timers se perderam (ex.: reinício do servidor)
+export async function expireOverdueSessions(): Promise<number> {
+  const now = new Date();
+  const count = await prisma.$transaction(async (tx) => {
+    const overdue = await tx.interviewSession.findMany({
+      where: { status: "IN_PROGRESS", expiresAt: { lte: now } },
+      select: { id: true },
+    });
+    const ids = overdue.map((s) => s.id);
+    if (ids.length === 0) return 0;
+
+    const { count } = await tx.interviewSession.updateMany({
+      where: { id: { in: ids }, status: "IN_PROGRESS" },
+      data: { status: "EXPIRED", endedAt: now },
+    });
+    for (const id of ids) {
+      await commitReservation(sessionReservationKey(id), tx);
+    }
+    return count;
+  });
+  if (count > 0) console.log(`⏱️ ${count} entrevista(s) expirada(s)`);
+  return count;
+}
+
+// Sessão em andamento cujo tempo já acabou, mas que ainda não foi marcada como expirada
+export function isPastDeadline(session: { status: InterviewStatus; expiresAt: Date | null }): boolean {
+  return session.status === "IN_PROGRESS" && !!session.expiresAt && session.expiresAt <= new Date();
+}
@@ -0,0 +1,42 @@
+import { LlmProvider } from "./providers/base";
+import { FakeLlmProvider } from "./providers/fake";
+import { GeminiProvider } from "./providers/gemini";
+import { OpenAiCompatibleProvider } from "./providers/openai";
+
+export { LlmError } from "./providers/base";
+export type { GenerateOptions, LlmProvider } from "./providers/base";
+
+function createLlmProvider(): LlmProvider {
+  const provider = process.env.LLM_PROVIDER ?? "gemini";
+  const model = process.env.LLM_MODEL;
+
+  switch (provider) {
+    case "gemini":
+      return new GeminiProvider({
+        apiKey: process.env.GEMINI_API_KEY,
+        model: model ?? "gemini-2.0-flash",
+      });
+    case "openai":
+      return new OpenAiCompatibleProvider({
+        apiKey: process.env.OPENAI_API_KEY,
+        baseUrl: process.env.OPENAI_BASE_URL ?? "https://api.openai.com/v1",
+        model: model ?? "gpt-4o-mini",
+      });
+    case "fake":
+      return new FakeLlmProvider();
+    default:
+      throw new Error(`LLM_PROVIDER inválido: ${provider}`);
+  }
+}
+
+let currentProvider: LlmProvider | undefined;
+
+export function getLlmProvider(): LlmProvider {
+  currentProvider ??= createLlmProvider();
+  return currentProvider;
+}
+
+// Permite substituir o provedor (ex.: por um FakeLlmProvider roteirizado nos testes)
+export function setLlmProvider(provider: LlmProvider): void {
+  currentProvider = provider;
+}
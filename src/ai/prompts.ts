@@ -0,0 +1,128 @@
+import { InterviewMessageRole, SeniorityLevel } from "../../generated/prisma";
+
+export interface TranscriptMessage {
+  role: InterviewMessageRole;
+  content: string;
+}
+
+export interface RubricCompetencyInfo {
+  key: string;
+  name: string;
+  description: string | null;
+  weight: number;
+}
+
+export interface InterviewRubric {
+  seniority: SeniorityLevel | null;
+  language: string;
+  mustAskQuestions: string[];
+  competencies: RubricCompetencyInfo[];
+}
+
+export interface InterviewJob {
+  title: string;
+  description: string;
+  rubric?: InterviewRubric | null;
+}
+
+const SENIORITY_LABELS: Record<SeniorityLevel, string> = {
+  INTERN: "estágio",
+  JUNIOR: "júnior",
+  MID: "pleno",
+  SENIOR: "sênior",
+  LEAD: "liderança",
+};
+
+function describeCompetencies(competencies: RubricCompetencyInfo[]): string {
+  return competencies
+    .map((c) => `- ${c.key} (${c.name})${c.description ? `: ${c.description}` : ""}`)
+    .join("\n");
+}
+
+// Instruções extras derivadas do roteiro da vaga, quando houver
+function rubricGuidelines(rubric: InterviewRubric | null | undefined): string {
+  if (!rubric) return "";
+
+  const lines: string[] = [`Conduza a entrevista no idioma ${rubric.language}.`];
+  if (rubric.seniority) {
+    lines.push(`O nível da vaga é ${SENIORITY_LABELS[rubric.seniority]}; ajuste a profundidade das perguntas.`);
+  }
+  if (rubric.competencies.length > 0) {
+    lines.push(`Explore as seguintes competências:\n${describeCompetencies(rubric.competencies)}`);
+  }
+  if (rubric.mustAskQuestions.length > 0) {
+    lines.push(
+      "As perguntas abaixo são obrigatórias. Faça as que ainda não aparecem no histórico antes de aprofundar outros temas:\n" +
+        rubric.mustAskQuestions.map((q) => `- ${q}`).join("\n"),
+    );
+  }
+  return lines.join("\n");
+}
+
+export function formatTranscript(messages: TranscriptMessage[]): string {
+  return messages
+    .map((m) => `${m.role === "INTERVIEWER" ? "Recrutador" : "Candidato"}: ${m.content}`)
+    .join("\n");
+}
+
+export function buildQuestionPrompt(job: InterviewJob, messages: TranscriptMessage[]): string {
+  return `
+Você é um recrutador de IA a conduzir uma entrevista para a vaga de "${job.title}".
+A descrição da vaga é: "${job.description}".
+${rubricGuidelines(job.rubric)}
+O histórico da conversa até agora é:
+${formatTranscript(messages)}
+Com base na última resposta do candidato, faça a próxima pergunta relevante para a vaga. Seja conciso e direto.
+Se o histórico estiver vazio, faça a primeira pergunta.
+  `;
+}
+
+const FEEDBACK_JSON_FORMAT = `{
+  "summary": string,            // Resumo do desempenho em uma frase
+  "strengths": string[],        // 2 a 3 pontos fortes
+  "weaknesses": string[],       // 2 a 3 pontos a melhorar
+  "score": number,              // Nota inteira de 0 a 10 para o desempenho geral
+  "competencies": [
+    {
+      "competency": string,     // Exatamente um dos identificadores listados
+      "score": number,          // Nota inteira de 0 a 10
+      "evidence": string[]      // Trechos copiados literalmente das respostas do candidato
+    }
+  ]
+}`;
+
+export function buildFeedbackPrompt(
+  job: InterviewJob,
+  messages: TranscriptMessage[],
+  competencies: string[],
+): string {
+  return `
+Analise a seguinte transcrição de entrevista para a vaga de "${job.title}".
+Transcrição:
+${formatTranscript(messages)}
+
+Com base na conversa, forneça uma avaliação do candidato em JSON, exatamente no formato:
+${FEEDBACK_JSON_FORMAT}
+
+Avalie cada uma destas competências (use os identificadores como estão): ${competencies.join(", ")}.
+${job.rubric?.competencies.length ? `Critérios de cada competência:\n${describeCompetencies(job.rubric.competencies)}` : ""}
+As evidências devem ser citações literais das falas do candidato; use uma lista vazia se não houver.${job.rubric ? `\nEscreva os textos da avaliação no idioma ${job.rubric.language}.` : ""}
+Responda apenas com o JSON. Seja objetivo e construtivo.
+  `;
+}
+
+export function buildFeedbackRepairPrompt(invalidOutput: string, problems: string[], competencies: string[]): string {
+  return `
+A avaliação abaixo não segue o formato exigido.
+Problemas encontrados:
+${problems.map((p) => `- ${p}`).join("\n")}
+
+Avaliação recebida:
+${invalidOutput}
+
+Corrija-a mantendo o conteúdo e responda apenas com o JSON no formato:
+${FEEDBACK_JSON_FORMAT}
+
+Competências obrigatórias (uma entrada para cada, sem repetições nem outras chaves): ${competencies.join(", ")}.
+  `;
+}
@@ -0,0 +1,68 @@
+export interface GenerateOptions {
+  // "json" pede ao modelo uma resposta em JSON puro (usado no feedback)
+  responseFormat?: "text" | "json";
+}
+
+export interface StreamOptions extends GenerateOptions {
+  // Interrompe a requisição ao modelo (ex.: cliente desconectou)
+  signal?: AbortSignal;
+}
+
+export interface LlmProvider {
+  readonly name: string;
+  generate(prompt: string, options?: GenerateOptions): Promise<string>;
+  // Produz o texto em partes, à medida que o modelo gera
+  stream(prompt: string, options?: StreamOptions): AsyncIterable<string>;
+}
+
+export class LlmError extends Error {
+  constructor(message: string, readonly status?: number) {
+    super(message);
+    this.name = "LlmError";
+  }
+}
+
+// Repete a chamada com backoff linear; erros 4xx não são repetidos
+export async function withRetries<T>(fn: () => Promise<T>, retries = 3): Promise<T> {
+  for (let i = 0; i < retries; i++) {
+    try {
+      console.log(`🔄 Tentativa ${i + 1} de ${retries}`);
+      const result = await fn();
+      console.log("✅ Sucesso");
+      return result;
+    } catch (error: unknown) {
+      const err = error as Error;
+      console.error(`❌ Tentativa ${i + 1}:`, err.message);
+
+      const clientError = err instanceof LlmError && err.status !== undefined && err.status < 500;
+      if (clientError || i === retries - 1) {
+        throw new LlmError(`Falha após ${i + 1} tentativas: ${err.message}`);
+      }
+
+      await new Promise(res => setTimeout(res, 1000 * (i + 1)));
+    }
+  }
+
+  throw new LlmError("Falha ao comunicar com a IA.");
+}
+
+// Lê uma resposta Server-Sent Events e produz o conteúdo de cada linha "data:"
+export async function* readSseData(response: Response): AsyncGenerator<string> {
+  if (!response.body) {
+    throw new LlmError("Resposta sem corpo.");
+  }
+
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  for await (const chunk of response.body) {
+    buffer += decoder.decode(chunk, { stream: true });
+    const lines = buffer.split(/\r?\n/);
+    buffer = lines.pop() ?? "";
+    for (const line of lines) {
+      if (line.startsWith("data:")) yield line.slice("data:".length).trim();
+    }
+  }
+
+  if (buffer.startsWith("data:")) yield buffer.slice("data:".length).trim();
+}
@@ -0,0 +1,57 @@
+import { GenerateOptions, LlmProvider, StreamOptions } from "./base";
+
+const FAKE_COMPETENCIES = ["communication", "technical_depth", "problem_solving", "culture_fit"];
+
+// Feedback válido que cita a primeira resposta do candidato como evidência
+function fakeFeedback(prompt: string): string {
+  const firstAnswer = prompt
+    .split("\n")
+    .find((line) => line.startsWith("Candidato:"))
+    ?.slice("Candidato:".length)
+    .trim();
+  const listed = prompt.match(/competências \(use os identificadores como estão\): (.+)\./)?.[1];
+  const competencies = listed ? listed.split(", ") : FAKE_COMPETENCIES;
+
+  return JSON.stringify({
+    summary: "Candidato demonstrou boa comunicação e conhecimento adequado para a vaga.",
+    strengths: ["Comunicação clara", "Exemplos concretos"],
+    weaknesses: ["Pouca profundidade técnica", "Respostas longas"],
+    score: 7,
+    competencies: competencies.map((competency) => ({
+      competency,
+      score: 7,
+      evidence: firstAnswer ? [firstAnswer] : [],
+    })),
+  });
+}
+
+// Provedor determinístico para desenvolvimento e testes, sem acesso à rede.
+// Respostas roteirizadas são devolvidas em ordem; depois disso usa respostas padrão.
+export class FakeLlmProvider implements LlmProvider {
+  readonly name = "fake";
+  readonly prompts: string[] = [];
+
+  constructor(private readonly scripted: string[] = []) {}
+
+  async generate(prompt: string, options?: GenerateOptions): Promise<string> {
+    this.prompts.push(prompt);
+
+    const next = this.scripted.shift();
+    if (next !== undefined) return next;
+
+    if (options?.responseFormat === "json") {
+      return fakeFeedback(prompt);
+    }
+
+    const answered = prompt.split("\n").filter((line) => line.startsWith("Candidato:")).length;
+    return `Pergunta ${answered + 1}: fale sobre uma experiência relevante para esta vaga.`;
+  }
+
+  async *stream(prompt: string, options?: StreamOptions): AsyncGenerator<string> {
+    const text = await this.generate(prompt, options);
+    for (const part of text.split(/(?<=\s)/)) {
+      if (options?.signal?.aborted) return;
+      yield part;
+    }
+  }
+}
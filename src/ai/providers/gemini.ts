@@ -0,0 +1,77 @@
+import { GenerateOptions, LlmError, LlmProvider, StreamOptions, readSseData, withRetries } from "./base";
+
+interface GeminiConfig {
+  apiKey: string | undefined;
+  model: string;
+}
+
+export class GeminiProvider implements LlmProvider {
+  readonly name = "gemini";
+
+  constructor(private readonly config: GeminiConfig) {}
+
+  private endpoint(method: string): string {
+    if (!this.config.apiKey) {
+      throw new LlmError("GEMINI_API_KEY não está definida.");
+    }
+    const separator = method.includes("?") ? "&" : "?";
+    return `https://generativelanguage.googleapis.com/v1beta/models/${this.config.model}:${method}${separator}key=${this.config.apiKey}`;
+  }
+
+  private body(prompt: string, options?: GenerateOptions): string {
+    return JSON.stringify({
+      contents: [{ parts: [{ text: prompt }] }],
+      ...(options?.responseFormat === "json" && {
+        generationConfig: { responseMimeType: "application/json" },
+      }),
+    });
+  }
+
+  async generate(prompt: string, options?: GenerateOptions): Promise<string> {
+    const url = this.endpoint("generateContent");
+
+    return withRetries(async () => {
+      const response = await fetch(url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: this.body(prompt, options),
+      });
+
+      if (!response.ok) {
+        const errorBody = await response.text();
+        console.error("❌ Erro da API:", errorBody);
+        throw new LlmError(`API retornou ${response.status}: ${errorBody}`, response.status);
+      }
+
+      const data = await response.json();
+      const text = data?.candidates?.[0]?.content?.parts?.[0]?.text;
+
+      if (!text) {
+        throw new LlmError("Resposta vazia.");
+      }
+
+      return text as string;
+    });
+  }
+
+  // Sem novas tentativas: parte do texto pode já ter sido entregue ao cliente
+  async *stream(prompt: string, options?: StreamOptions): AsyncGenerator<string> {
+    const response = await fetch(this.endpoint("streamGenerateContent?alt=sse"), {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: this.body(prompt, options),
+      signal: options?.signal ?? null,
+    });
+
+    if (!response.ok) {
+      const errorBody = await response.text();
+      throw new LlmError(`API retornou ${response.status}: ${errorBody}`, response.status);
+    }
+
+    for await (const data of readSseData(response)) {
+      const chunk = JSON.parse(data);
+      const text = chunk?.candidates?.[0]?.content?.parts?.[0]?.text;
+      if (text) yield text as string;
+    }
+  }
+}
@@ -0,0 +1,83 @@
+import { GenerateOptions, LlmError, LlmProvider, StreamOptions, readSseData, withRetries } from "./base";
+
+interface OpenAiCompatibleConfig {
+  apiKey: string | undefined;
+  baseUrl: string;
+  model: string;
+}
+
+// Compatível com a API de chat completions da OpenAI e servidores que a imitam
+// (vLLM, Ollama, LM Studio etc.). A chave é opcional para servidores locais.
+export class OpenAiCompatibleProvider implements LlmProvider {
+  readonly name = "openai";
+
+  constructor(private readonly config: OpenAiCompatibleConfig) {}
+
+  private headers(): Record<string, string> {
+    return {
+      "Content-Type": "application/json",
+      ...(this.config.apiKey && { Authorization: `Bearer ${this.config.apiKey}` }),
+    };
+  }
+
+  private body(prompt: string, options?: GenerateOptions): Record<string, unknown> {
+    return {
+      model: this.config.model,
+      messages: [{ role: "user", content: prompt }],
+      ...(options?.responseFormat === "json" && { response_format: { type: "json_object" } }),
+    };
+  }
+
+  private url(): string {
+    return `${this.config.baseUrl.replace(/\/$/, "")}/chat/completions`;
+  }
+
+  async generate(prompt: string, options?: GenerateOptions): Promise<string> {
+    const url = this.url();
+
+    return withRetries(async () => {
+      const response = await fetch(url, {
+        method: "POST",
+        headers: this.headers(),
+        body: JSON.stringify(this.body(prompt, options)),
+      });
+
+      if (!response.ok) {
+        const errorBody = await response.text();
+        console.error("❌ Erro da API:", errorBody);
+        throw new LlmError(`API retornou ${response.status}: ${errorBody}`, response.status);
+      }
+
+      const data = await response.json();
+      const text = data?.choices?.[0]?.message?.content;
+
+      if (!text) {
+        throw new LlmError("Resposta vazia.");
+      }
+
+      return text as string;
+    });
+  }
+
+  // Sem novas tentativas: parte do texto pode já ter sido entregue ao cliente
+  async *stream(prompt: string, options?: StreamOptions): AsyncGenerator<string> {
+    const response = await fetch(this.url(), {
+      method: "POST",
+      headers: this.headers(),
+      body: JSON.stringify({ ...this.body(prompt, options), stream: true }),
+      signal: options?.signal ?? null,
+    });
+
+    if (!response.ok) {
+      const errorBody = await response.text();
+      throw new LlmError(`API retornou ${response.status}: ${errorBody}`, response.status);
+    }
+
+    for await (const data of readSseData(response)) {
+      if (data === "[DONE]") return;
+      const chunk = JSON.parse(data);
+      const text = chunk?.choices?.[0]?.delta?.content;
+      if (text) yield text as string;
+    }
+  }
+}
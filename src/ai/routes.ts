@@ -1,207 +1,522 @@
 import { FastifyInstance } from "fastify";
 import { z } from "zod";
+import { Prisma } from "../../generated/prisma";
+import {
+  InsufficientCreditsError,
+  getCreditsCost,
+  releaseReservation,
+  reserveCredits,
+  sessionReservationKey,
+} from "../credits/reservations";
 import { prisma } from "../lib/prisma";
+import { getLlmProvider } from "./llm";
+import { FeedbackValidationError, generateFeedback, saveJobFeedback } from "./feedback";
+import {
+  canTransition,
+  clearSessionExpiry,
+  expireSession,
+  failSession,
+  isPastDeadline,
+  scheduleSessionExpiry,
+  transitionSession,
+} from "./lifecycle";
+import { buildQuestionPrompt } from "./prompts";
 
-// Função para calcular o custo de créditos baseado no tipo de entrevista
-function getCreditsCost(interviewType: string, durationMinutes: number): number {
-  const baseCosts = {
-    TEXT: 1,
-    VOICE: 2,
-    AVATAR: 3
-  };
-  
-  const baseCost = baseCosts[interviewType as keyof typeof baseCosts] || 1;
-  
-  // Adiciona custo extra para entrevistas mais longas
-  if (durationMinutes > 30) {
-    return baseCost * 2;
+// Campos da vaga (e do roteiro) usados para montar os prompts e controlar o tempo
+const jobPromptSelect = {
+  id: true,
+  title: true,
+  description: true,
+  durationMinutes: true,
+  interviewType: true,
+  rubric: {
+    select: {
+      seniority: true,
+      language: true,
+      mustAskQuestions: true,
+      competencies: {
+        orderBy: { position: "asc" },
+        select: { key: true, name: true, description: true, weight: true },
+      },
+    },
+  },
+} satisfies Prisma.JobSelect;
+
+// Carrega a sessão com a vaga e a transcrição, garantindo que pertence ao usuário
+async function findOwnedSession(sessionId: string, userId: string) {
+  return prisma.interviewSession.findFirst({
+    where: { id: sessionId, userId },
+    include: {
+      job: { select: jobPromptSelect },
+      messages: { orderBy: { position: "asc" }, select: { role: true, content: true, position: true } },
+    },
+  });
+}
+
+class SessionClosedError extends Error {
+  constructor() {
+    super("A entrevista não está mais em andamento.");
+    this.name = "SessionClosedError";
   }
-  
-  return baseCost;
 }
 
-const GEMINI_API_KEY = process.env.GEMINI_API_KEY;
+// Grava a resposta do candidato e a próxima pergunta juntas, depois que a IA respondeu;
+// a unicidade de (sessionId, position) impede gravações concorrentes duplicadas
+async function saveExchange(sessionId: string, lastPosition: number, answer: string, nextQuestion: string) {
+  await prisma.$transaction(async (tx) => {
+    // A entrevista pode ter expirado enquanto a IA gerava a pergunta
+    const { count } = await tx.interviewSession.updateMany({
+      where: { id: sessionId, status: "IN_PROGRESS", expiresAt: { gt: new Date() } },
+      data: { updatedAt: new Date() },
+    });
+    if (count === 0) throw new SessionClosedError();
+
+    await tx.interviewMessage.createMany({
+      data: [
+        { sessionId, role: "CANDIDATE", content: answer, position: lastPosition + 1 },
+        { sessionId, role: "INTERVIEWER", content: nextQuestion, position: lastPosition + 2 },
+      ],
+    });
+  });
+}
 
-async function callGeminiAPI(prompt: string, retries = 3) {
-  if (!GEMINI_API_KEY) {
-    throw new Error("GEMINI_API_KEY não está definida.");
+type OwnedSession = NonNullable<Awaited<ReturnType<typeof findOwnedSession>>>;
+
+// Verifica se a sessão aceita respostas; expira na hora se o tempo já acabou
+async function checkAcceptingAnswers(session: OwnedSession): Promise<string | null> {
+  if (isPastDeadline(session)) {
+    await expireSession(session.id);
+    return "O tempo da entrevista esgotou.";
+  }
+  if (session.status !== "IN_PROGRESS") {
+    return `A entrevista não está em andamento (status: ${session.status}).`;
+  }
+  const lastMessage = session.messages[session.messages.length - 1];
+  if (lastMessage?.role !== "INTERVIEWER") {
+    return "A sessão não está aguardando uma resposta.";
   }
+  return null;
+}
 
-  // Usar gemini-2.0-flash (disponível na sua conta)
-  const url = `https://generativelanguage.googleapis.com/v1/models/gemini-2.0-flash:generateContent?key=${GEMINI_API_KEY}`;
+const AI_FAILURE_REASON = "Falha no serviço de IA";
 
-  for (let i = 0; i < retries; i++) {
-    try {
-      console.log(`🔄 Tentativa ${i + 1} de ${retries}`);
-      
-      const response = await fetch(url, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          contents: [{ parts: [{ text: prompt }] }],
-        }),
+// Reserva os créditos, gera a primeira pergunta e coloca a sessão em andamento,
+// com prazo baseado em durationMinutes. Se a IA falhar, a reserva é devolvida.
+async function startSession(sessionId: string, userId: string, job: OwnedSession["job"]) {
+  const reservationKey = sessionReservationKey(sessionId);
+  await reserveCredits({
+    key: reservationKey,
+    userId,
+    amount: getCreditsCost(job.interviewType, job.durationMinutes),
+    jobId: job.id,
+    sessionId,
+  });
+
+  let firstQuestion: string;
+  try {
+    firstQuestion = await getLlmProvider().generate(buildQuestionPrompt(job, []));
+  } catch (error: unknown) {
+    await releaseReservation(reservationKey, AI_FAILURE_REASON);
+    throw error;
+  }
+
+  const startedAt = new Date();
+  const expiresAt = new Date(startedAt.getTime() + job.durationMinutes * 60 * 1000);
+
+  // Se outra requisição mudou o estado antes, a reserva fica com ela (ou é devolvida pela varredura)
+  const started = await prisma.$transaction(async (tx) => {
+    const ok = await transitionSession(sessionId, "IN_PROGRESS", { startedAt, expiresAt }, tx);
+    if (!ok) return false;
+    await tx.interviewMessage.create({
+      data: { sessionId, role: "INTERVIEWER", content: firstQuestion, position: 0 },
+    });
+    return true;
+  });
+
+  if (!started) return null;
+  scheduleSessionExpiry(sessionId, expiresAt);
+  return { sessionId, status: "IN_PROGRESS" as const, startedAt, expiresAt, nextQuestion: firstQuestion };
+}
+
+function insufficientCredits(error: InsufficientCreditsError) {
+  return { message: error.message, required: error.required, available: error.available };
+}
+
+const conversationBodySchema = z.object({
+  sessionId: z.string().uuid(),
+  answer: z.string().min(1),
+});
+
+const conversationJsonSchema = {
+  body: {
+    type: "object",
+    required: ["sessionId", "answer"],
+    properties: {
+      sessionId: { type: "string", format: "uuid" },
+      answer: { type: "string", minLength: 1 },
+    },
+  },
+};
+
+const sessionParamsJsonSchema = {
+  params: {
+    type: "object",
+    required: ["id"],
+    properties: {
+      id: { type: "string", format: "uuid" },
+    },
+  },
+};
+
+export async function aiRoutes(app: FastifyInstance): Promise<void> {
+  // POST /ai/sessions - Criar uma sessão de entrevista; por padrão já inicia e gera a primeira pergunta
+  app.post<{ Body: unknown }>("/sessions", {
+    schema: {
+      body: {
+        type: "object",
+        required: ["jobId"],
+        properties: {
+          jobId: { type: "string", format: "uuid" },
+          start: { type: "boolean" },
+        },
+      },
+    },
+    handler: async (request, reply) => {
+      const bodySchema = z.object({ jobId: z.string().uuid(), start: z.boolean().default(true) });
+      const { jobId, start } = bodySchema.parse(request.body);
+
+      const job = await prisma.job.findFirst({
+        where: { id: jobId, userId: request.user.id, deletedAt: null },
+        select: { ...jobPromptSelect, archivedAt: true },
       });
 
-      if (!response.ok) {
-        const errorBody = await response.json();
-        console.error("❌ Erro da API:", JSON.stringify(errorBody, null, 2));
-        
-        if (response.status >= 500 && i < retries - 1) {
-          await new Promise(res => setTimeout(res, 1000 * (i + 1)));
-          continue;
+      if (!job) {
+        return reply.code(404).send({ message: "Vaga não encontrada." });
+      }
+
+      if (job.archivedAt) {
+        return reply.code(409).send({ message: "Vaga arquivada. Restaure-a para iniciar entrevistas." });
+      }
+
+      const session = await prisma.interviewSession.create({
+        data: { jobId: job.id, userId: request.user.id },
+      });
+
+      if (!start) {
+        return reply.code(201).send({ sessionId: session.id, status: session.status });
+      }
+
+      try {
+        const started = await startSession(session.id, request.user.id, job);
+        return reply.code(201).send(started);
+      } catch (error: unknown) {
+        if (error instanceof InsufficientCreditsError) {
+          return reply.code(400).send({ ...insufficientCredits(error), sessionId: session.id });
         }
-        
-        throw new Error(`API retornou ${response.status}: ${JSON.stringify(errorBody)}`);
+        const err = error as Error;
+        console.error("Erro ao iniciar sessão de entrevista:", err);
+        return reply.code(500).send({
+          message: "Erro de comunicação com o serviço de IA.",
+          details: err.message,
+          sessionId: session.id,
+        });
       }
+    },
+  });
 
-      const data = await response.json();
-      const text = data?.candidates?.[0]?.content?.parts?.[0]?.text;
-      
-      if (!text) {
-        throw new Error("Resposta vazia.");
+  // GET /ai/sessions/:id - Obter a sessão com a transcrição completa
+  app.get<{ Params: { id: string } }>("/sessions/:id", {
+    schema: sessionParamsJsonSchema,
+    handler: async (request, reply) => {
+      const paramsSchema = z.object({ id: z.string().uuid() });
+      const { id } = paramsSchema.parse(request.params);
+
+      const session = await findOwnedSession(id, request.user.id);
+      if (!session) {
+        return reply.code(404).send({ message: "Sessão de entrevista não encontrada." });
       }
 
-      console.log("✅ Sucesso");
-      return text;
-    } catch (error: unknown) {
-      const err = error as Error;
-      console.error(`❌ Tentativa ${i + 1}:`, err.message);
-      
-      if (i === retries - 1) {
-        throw new Error(`Falha após ${retries} tentativas: ${err.message}`);
+      if (isPastDeadline(session)) {
+        await expireSession(session.id);
+        return { ...session, status: "EXPIRED" };
       }
 
-      await new Promise(res => setTimeout(res, 1000 * (i + 1)));
-    }
-  }
+      return session;
+    },
+  });
 
-  throw new Error("Falha ao comunicar com a IA.");
-}
+  // POST /ai/sessions/:id/start - Iniciar uma sessão agendada (SCHEDULED → IN_PROGRESS)
+  app.post<{ Params: { id: string } }>("/sessions/:id/start", {
+    schema: sessionParamsJsonSchema,
+    handler: async (request, reply) => {
+      const paramsSchema = z.object({ id: z.string().uuid() });
+      const { id } = paramsSchema.parse(request.params);
 
-export async function aiRoutes(app: FastifyInstance): Promise<void> {
+      const session = await findOwnedSession(id, request.user.id);
+      if (!session) {
+        return reply.code(404).send({ message: "Sessão de entrevista não encontrada." });
+      }
+
+      if (!canTransition(session.status, "IN_PROGRESS")) {
+        return reply.code(409).send({ message: `Não é possível iniciar uma entrevista com status ${session.status}.` });
+      }
+
+      try {
+        const started = await startSession(session.id, request.user.id, session.job);
+        if (!started) {
+          return reply.code(409).send({ message: "A entrevista já foi iniciada ou encerrada." });
+        }
+        return started;
+      } catch (error: unknown) {
+        if (error instanceof InsufficientCreditsError) {
+          return reply.code(400).send(insufficientCredits(error));
+        }
+        const err = error as Error;
+        console.error("Erro ao iniciar sessão de entrevista:", err);
+        return reply.code(500).send({
+          message: "Erro de comunicação com o serviço de IA.",
+          details: err.message,
+        });
+      }
+    },
+  });
+
+  // POST /ai/sessions/:id/complete - Encerrar a entrevista (IN_PROGRESS → COMPLETED)
+  app.post<{ Params: { id: string } }>("/sessions/:id/complete", {
+    schema: sessionParamsJsonSchema,
+    handler: async (request, reply) => {
+      const paramsSchema = z.object({ id: z.string().uuid() });
+      const { id } = paramsSchema.parse(request.params);
+
+      const session = await findOwnedSession(id, request.user.id);
+      if (!session) {
+        return reply.code(404).send({ message: "Sessão de entrevista não encontrada." });
+      }
+
+      if (isPastDeadline(session)) {
+        await expireSession(session.id);
+        return reply.code(409).send({ message: "O tempo da entrevista esgotou.", status: "EXPIRED" });
+      }
+
+      const ok = await transitionSession(session.id, "COMPLETED", { endedAt: new Date() });
+      if (!ok) {
+        return reply.code(409).send({ message: `Não é possível encerrar uma entrevista com status ${session.status}.` });
+      }
+
+      clearSessionExpiry(session.id);
+      return { sessionId: session.id, status: "COMPLETED" };
+    },
+  });
+
+  // POST /ai/sessions/:id/cancel - Cancelar a entrevista (SCHEDULED/IN_PROGRESS → CANCELLED)
+  app.post<{ Params: { id: string } }>("/sessions/:id/cancel", {
+    schema: sessionParamsJsonSchema,
+    handler: async (request, reply) => {
+      const paramsSchema = z.object({ id: z.string().uuid() });
+      const { id } = paramsSchema.parse(request.params);
+
+      const session = await findOwnedSession(id, request.user.id);
+      if (!session) {
+        return reply.code(404).send({ message: "Sessão de entrevista não encontrada." });
+      }
+
+      const ok = await transitionSession(session.id, "CANCELLED", { endedAt: new Date() });
+      if (!ok) {
+        return reply.code(409).send({ message: `Não é possível cancelar uma entrevista com status ${session.status}.` });
+      }
+
+      clearSessionExpiry(session.id);
+      return { sessionId: session.id, status: "CANCELLED" };
+    },
+  });
+
+  // POST /ai/conversation - Registrar a resposta do candidato e gerar a próxima pergunta
   app.post<{ Body: unknown }>("/conversation", {
+    schema: conversationJsonSchema,
     handler: async (request, reply) => {
-      const bodySchema = z.object({
-        jobDetails: z.object({ title: z.string(), description: z.string() }),
-        history: z.array(
-          z.object({
-            role: z.enum(["user", "model"]),
-            parts: z.array(z.object({ text: z.string() })),
-          })
-        ),
-      });
+      const { sessionId, answer } = conversationBodySchema.parse(request.body);
+
+      const session = await findOwnedSession(sessionId, request.user.id);
+      if (!session) {
+        return reply.code(404).send({ message: "Sessão de entrevista não encontrada." });
+      }
+
+      const rejection = await checkAcceptingAnswers(session);
+      if (rejection) {
+        return reply.code(409).send({ message: rejection });
+      }
 
       try {
-        const { jobDetails, history } = bodySchema.parse(request.body);
-        const historyText = history
-          .map((h) => `${h.role === "model" ? "Recrutador" : "Candidato"}: ${h.parts[0]?.text ?? ""}`)
-          .join("\n");
-
-        const prompt = `
-Você é um recrutador de IA a conduzir uma entrevista para a vaga de "${jobDetails.title}".
-A descrição da vaga é: "${jobDetails.description}".
-O histórico da conversa até agora é:
-${historyText}
-Com base na última resposta do candidato, faça a próxima pergunta relevante para a vaga. Seja conciso e direto.
-Se o histórico estiver vazio, faça a primeira pergunta.
-        `;
-
-        const nextQuestion = await callGeminiAPI(prompt);
+        const transcript = [...session.messages, { role: "CANDIDATE" as const, content: answer }];
+        const nextQuestion = await getLlmProvider().generate(buildQuestionPrompt(session.job, transcript));
+        await saveExchange(sessionId, session.messages.length - 1, answer, nextQuestion);
+
         return { nextQuestion };
       } catch (error: unknown) {
+        if (error instanceof SessionClosedError) {
+          return reply.code(409).send({ message: error.message });
+        }
+        if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
+          return reply.code(409).send({ message: "A resposta já foi registrada." });
+        }
         const err = error as Error;
         console.error("Erro na rota /conversation:", err);
+        await failSession(sessionId, AI_FAILURE_REASON);
         return reply.code(500).send({ 
-          message: "Erro de comunicação com o serviço de IA.",
+          message: "Erro de comunicação com o serviço de IA. A entrevista foi encerrada e os créditos devolvidos.",
           details: err.message 
         });
       }
     },
   });
 
-  app.post<{ Body: unknown }>("/feedback", {
+  // POST /ai/conversation/stream - Igual a /conversation, mas envia a pergunta
+  // em partes via Server-Sent Events (eventos "token", "done" e "error")
+  app.post<{ Body: unknown }>("/conversation/stream", {
+    schema: conversationJsonSchema,
     handler: async (request, reply) => {
-      const bodySchema = z.object({
-        jobId: z.string().uuid(), // ✅ Adicionar jobId para identificar qual Job atualizar
-        jobDetails: z.object({
-          title: z.string(),
-          description: z.string(),
-          user_id: z.string().uuid(),
-          duracao_entrevista: z.number().int().min(1),
-          tipo_de_entrevista: z.enum(["TEXT", "VOICE", "AVATAR"]),
-        }),
-        history: z.array(
-          z.object({
-            role: z.enum(["user", "model"]),
-            parts: z.array(z.object({ text: z.string() })),
-          })
-        ),
+      const { sessionId, answer } = conversationBodySchema.parse(request.body);
+
+      const session = await findOwnedSession(sessionId, request.user.id);
+      if (!session) {
+        return reply.code(404).send({ message: "Sessão de entrevista não encontrada." });
+      }
+
+      const rejection = await checkAcceptingAnswers(session);
+      if (rejection) {
+        return reply.code(409).send({ message: rejection });
+      }
+
+      // A partir daqui a resposta é escrita diretamente no socket
+      reply.hijack();
+      const res = reply.raw;
+      // Mantém cabeçalhos já definidos por hooks (ex.: CORS)
+      for (const [name, value] of Object.entries(reply.getHeaders())) {
+        if (value !== undefined) res.setHeader(name, value);
+      }
+      res.writeHead(200, {
+        "Content-Type": "text/event-stream; charset=utf-8",
+        "Cache-Control": "no-cache",
+        Connection: "keep-alive",
+        "X-Accel-Buffering": "no",
+      });
+
+      const sendEvent = (event: string, data: unknown) => {
+        res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+      };
+
+      // Cliente desconectou antes do fim: cancela a geração e nada é gravado
+      const controller = new AbortController();
+      res.on("close", () => {
+        if (!res.writableFinished) controller.abort();
       });
 
       try {
-        const { jobId, jobDetails, history } = bodySchema.parse(request.body);
-        
-        // ✅ Verificar se o Job existe
-        const existingJob = await prisma.job.findUnique({
-          where: { id: jobId },
-          select: { id: true, userId: true },
-        });
-        
-        if (!existingJob) {
-          return reply.code(404).send({ message: "Entrevista não encontrada." });
+        const transcript = [...session.messages, { role: "CANDIDATE" as const, content: answer }];
+        let nextQuestion = "";
+
+        for await (const text of getLlmProvider().stream(buildQuestionPrompt(session.job, transcript), {
+          signal: controller.signal,
+        })) {
+          if (controller.signal.aborted) break;
+          nextQuestion += text;
+          sendEvent("token", { text });
         }
-        
-        // ✅ Verificar se o Job pertence ao usuário
-        if (existingJob.userId !== jobDetails.user_id) {
-          return reply.code(403).send({ message: "Não autorizado a atualizar esta entrevista." });
+
+        if (controller.signal.aborted) return;
+
+        if (!nextQuestion.trim()) {
+          throw new Error("Resposta vazia.");
         }
-        
-        // ❌ REMOVIDO: Verificação de créditos (já foram consumidos na criação do Job)
-        
-        const conversationText = history
-          .map((h) => `${h.role === "model" ? "Recrutador" : "Candidato"}: ${h.parts[0]?.text ?? ""}`)
-          .join("\n");
-
-        const prompt = `
-Analise a seguinte transcrição de entrevista para a vaga de "${jobDetails.title}".
-Transcrição:
-${conversationText}
-
-Com base na conversa, forneça uma avaliação do candidato em formato JSON. O JSON deve ter as seguintes chaves:
-- "summary": (string) Um resumo geral do desempenho do candidato em uma frase.
-- "strengths": (string) Uma lista de 2 a 3 pontos fortes, separados por ponto e vírgula.
-- "weaknesses": (string) Uma lista de 2 a 3 pontos a melhorar, separados por ponto e vírgula.
-- "score": (number) Uma nota de 0 a 10 para o desempenho geral.
-Seja objetivo e construtivo.
-        `;
-
-        const feedbackJsonString = await callGeminiAPI(prompt);
-        const feedback = JSON.parse(feedbackJsonString.replace(/```json|```/g, "").trim());
-
-        const strengthsAsString = Array.isArray(feedback.strengths)
-          ? feedback.strengths.join("; ")
-          : feedback.strengths;
-        const weaknessesAsString = Array.isArray(feedback.weaknesses)
-          ? feedback.weaknesses.join("; ")
-          : feedback.weaknesses;
-        const scoreAsNumber = Math.max(0, Math.min(10, parseInt(feedback.score, 10) || 0));
-
-        // ✅ USAR UPDATE ao invés de CREATE
-        const updatedJob = await prisma.job.update({
-          where: { id: jobId },
-          data: {
-            feedbackSummary: feedback.summary,
-            feedbackStrengths: strengthsAsString,
-            feedbackWeaknesses: weaknessesAsString,
-            feedbackScore: scoreAsNumber,
-            updatedAt: new Date(),
-          },
-        });
 
-        // ✅ Retornar o Job atualizado (com o mesmo ID)
-        return updatedJob;
-        
+        await saveExchange(sessionId, session.messages.length - 1, answer, nextQuestion);
+        sendEvent("done", { nextQuestion });
+      } catch (error: unknown) {
+        if (controller.signal.aborted) return;
+        if (error instanceof SessionClosedError) {
+          sendEvent("error", { message: error.message });
+        } else if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
+          sendEvent("error", { message: "A resposta já foi registrada." });
+        } else {
+          const err = error as Error;
+          console.error("Erro na rota /conversation/stream:", err);
+          await failSession(sessionId, AI_FAILURE_REASON);
+          sendEvent("error", {
+            message: "Erro de comunicação com o serviço de IA. A entrevista foi encerrada e os créditos devolvidos.",
+            details: err.message,
+          });
+        }
+      } finally {
+        if (!res.writableEnded) res.end();
+      }
+    },
+  });
+
+  // POST /ai/feedback - Avaliar a entrevista (uma única vez); encerra a sessão se ainda estiver em andamento
+  app.post<{ Body: unknown }>("/feedback", {
+    schema: {
+      body: {
+        type: "object",
+        required: ["sessionId"],
+        properties: {
+          sessionId: { type: "string", format: "uuid" },
+        },
+      },
+    },
+    handler: async (request, reply) => {
+      const bodySchema = z.object({
+        sessionId: z.string().uuid(),
+      });
+
+      const { sessionId } = bodySchema.parse(request.body);
+      
+      // A transcrição vem do servidor, nunca do corpo da requisição
+      const session = await findOwnedSession(sessionId, request.user.id);
+      
+      if (!session) {
+        return reply.code(404).send({ message: "Sessão de entrevista não encontrada." });
+      }
+      
+      if (session.status === "SCHEDULED" || session.status === "CANCELLED") {
+        return reply.code(409).send({ message: `Não é possível avaliar uma entrevista com status ${session.status}.` });
+      }
+      
+      if (!session.messages.some((m) => m.role === "CANDIDATE")) {
+        return reply.code(400).send({ message: "A entrevista ainda não possui respostas do candidato." });
+      }
+
+      if (session.status === "IN_PROGRESS") {
+        const ended = isPastDeadline(session)
+          ? await expireSession(session.id)
+          : await transitionSession(session.id, "COMPLETED", { endedAt: new Date() });
+        if (ended) clearSessionExpiry(session.id);
+      }
+
+      // Reserva a avaliação; uma segunda chamada (ou concorrente) é rejeitada
+      const { count } = await prisma.interviewSession.updateMany({
+        where: { id: session.id, status: { in: ["COMPLETED", "EXPIRED"] }, feedbackGeneratedAt: null },
+        data: { feedbackGeneratedAt: new Date() },
+      });
+      if (count === 0) {
+        return reply.code(409).send({ message: "Esta entrevista já foi avaliada." });
+      }
+
+      try {
+        const feedback = await generateFeedback(session.job, session.messages);
+        return await prisma.$transaction((tx) => saveJobFeedback(session.job.id, feedback, tx));
       } catch (error: unknown) {
+        // Libera a reserva para permitir uma nova tentativa
+        await prisma.interviewSession.update({
+          where: { id: session.id },
+          data: { feedbackGeneratedAt: null },
+        });
+        if (error instanceof FeedbackValidationError) {
+          console.error("Feedback inválido da IA:", error.rawOutput);
+          return reply.code(502).send({
+            message: "A IA retornou um feedback inválido. Tente novamente.",
+            details: error.message,
+          });
+        }
         const err = error as Error;
         console.error("Erro ao gerar feedback:", err);
         return reply.code(500).send({ 
@@ -1,16 +1,9 @@
 import { FastifyInstance } from "fastify";
 import { z } from "zod";
 import bcrypt from "bcrypt";
-import jwt from "jsonwebtoken";
 import { prisma } from "../lib/prisma";
-
-function getJwtSecret(): string {
-	const secret = process.env.JWT_SECRET;
-	if (!secret) {
-		throw new Error("JWT_SECRET não definido no .env");
-	}
-	return secret;
-}
+import { createSession, revokeAllSessions, revokeSession, rotateSession } from "./sessions";
+import { consumeUserToken, sendPasswordResetEmail, sendVerificationEmail } from "./tokens";
 
 export async function authRoutes(app: FastifyInstance): Promise<void> {
 	app.post<{ Body: unknown }>("/login", {
@@ -31,29 +24,156 @@ export async function authRoutes(app: FastifyInstance): Promise<void> {
 			if (!user) return reply.code(401).send({ message: "Credenciais inválidas" });
 			const ok = await bcrypt.compare(senha, user.passwordHash);
 			if (!ok) return reply.code(401).send({ message: "Credenciais inválidas" });
-			const token = jwt.sign({ sub: user.id }, getJwtSecret(), { expiresIn: "7d" });
-			return { token };
+			return createSession(user, { userAgent: request.headers["user-agent"], ip: request.ip });
 		},
 	});
 
-	app.get("/me", {
+	app.post<{ Body: unknown }>("/refresh", {
+		schema: {
+			body: {
+				type: "object",
+				required: ["refreshToken"],
+				properties: {
+					refreshToken: { type: "string", minLength: 1 },
+				},
+			},
+		},
+		handler: async (request, reply) => {
+			const bodySchema = z.object({ refreshToken: z.string().min(1) });
+			const { refreshToken } = bodySchema.parse(request.body);
+			const tokens = await rotateSession(refreshToken);
+			if (!tokens) return reply.code(401).send({ message: "Refresh token inválido" });
+			return tokens;
+		},
+	});
+
+	// Encerra apenas a sessão do token atual
+	app.post("/logout", {
 		handler: async (request, reply) => {
-			const auth = request.headers.authorization;
-			if (!auth?.startsWith("Bearer ")) return reply.code(401).send({ message: "Token ausente" });
-			const token = auth.slice("Bearer ".length);
-			try {
-				const payload = jwt.verify(token, getJwtSecret());
-				const userId = typeof payload === "object" && payload.sub ? String(payload.sub) : undefined;
-				if (!userId) return reply.code(401).send({ message: "Token inválido" });
-				const user = await prisma.user.findUnique({
-					where: { id: userId },
-					select: { id: true, fullName: true, email: true, createdAt: true, updatedAt: true },
-				});
-				if (!user) return reply.code(404).send({ message: "Usuário não encontrado" });
-				return user;
-			} catch {
-				return reply.code(401).send({ message: "Token inválido" });
+			await revokeSession(request.user.sessionId);
+			return reply.code(204).send();
+		},
+	});
+
+	// Encerra todas as sessões do usuário (todos os dispositivos)
+	app.post("/logout-all", {
+		handler: async (request) => {
+			const revoked = await revokeAllSessions(request.user.id);
+			return { revoked };
+		},
+	});
+
+	// Sempre responde da mesma forma para não revelar quais e-mails estão cadastrados
+	app.post<{ Body: unknown }>("/forgot-password", {
+		schema: {
+			body: {
+				type: "object",
+				required: ["email"],
+				properties: {
+					email: { type: "string", format: "email" },
+				},
+			},
+		},
+		handler: async (request, reply) => {
+			const bodySchema = z.object({ email: z.string().email() });
+			const { email } = bodySchema.parse(request.body);
+			const user = await prisma.user.findUnique({
+				where: { email },
+				select: { id: true, email: true, fullName: true },
+			});
+			if (user) {
+				try {
+					await sendPasswordResetEmail(user);
+				} catch (err: unknown) {
+					request.log.error({ err }, "Erro ao enviar e-mail de redefinição de senha");
+				}
 			}
+			return reply.code(202).send({ message: "Se o e-mail estiver cadastrado, você receberá as instruções." });
+		},
+	});
+
+	app.post<{ Body: unknown }>("/reset-password", {
+		schema: {
+			body: {
+				type: "object",
+				required: ["token", "senha"],
+				properties: {
+					token: { type: "string", minLength: 1 },
+					senha: { type: "string", minLength: 6 },
+				},
+			},
+		},
+		handler: async (request, reply) => {
+			const bodySchema = z.object({ token: z.string().min(1), senha: z.string().min(6) });
+			const { token, senha } = bodySchema.parse(request.body);
+			const passwordHash = await bcrypt.hash(senha, 10);
+			const userId = await prisma.$transaction(async (tx) => {
+				const id = await consumeUserToken(token, "PASSWORD_RESET", tx);
+				if (!id) return null;
+				await tx.user.update({ where: { id }, data: { passwordHash } });
+				// Quem recebeu o link comprovou acesso ao e-mail
+				await tx.user.updateMany({ where: { id, emailVerifiedAt: null }, data: { emailVerifiedAt: new Date() } });
+				await revokeAllSessions(id, tx);
+				return id;
+			});
+			if (!userId) return reply.code(400).send({ message: "Token inválido ou expirado" });
+			return { message: "Senha redefinida com sucesso" };
+		},
+	});
+
+	app.post<{ Body: unknown }>("/verify-email", {
+		schema: {
+			body: {
+				type: "object",
+				required: ["token"],
+				properties: {
+					token: { type: "string", minLength: 1 },
+				},
+			},
+		},
+		handler: async (request, reply) => {
+			const bodySchema = z.object({ token: z.string().min(1) });
+			const { token } = bodySchema.parse(request.body);
+			const userId = await prisma.$transaction(async (tx) => {
+				const id = await consumeUserToken(token, "EMAIL_VERIFICATION", tx);
+				if (!id) return null;
+				await tx.user.update({ where: { id }, data: { emailVerifiedAt: new Date() } });
+				return id;
+			});
+			if (!userId) return reply.code(400).send({ message: "Token inválido ou expirado" });
+			return { message: "E-mail verificado com sucesso" };
+		},
+	});
+
+	app.post("/resend-verification", {
+		handler: async (request, reply) => {
+			const user = await prisma.user.findUnique({
+				where: { id: request.user.id },
+				select: { id: true, email: true, fullName: true, emailVerifiedAt: true },
+			});
+			if (!user) return reply.code(404).send({ message: "Usuário não encontrado" });
+			if (user.emailVerifiedAt) return reply.code(409).send({ message: "E-mail já verificado" });
+			await sendVerificationEmail(user);
+			return reply.code(202).send({ message: "E-mail de verificação enviado" });
+		},
+	});
+
+	app.get("/me", {
+		handler: async (request, reply) => {
+			const user = await prisma.user.findUnique({
+				where: { id: request.user.id },
+				select: {
+					id: true,
+					fullName: true,
+					email: true,
+					role: true,
+					emailVerifiedAt: true,
+					createdAt: true,
+					updatedAt: true,
+				},
+			});
+			if (!user) return reply.code(404).send({ message: "Usuário não encontrado" });
+			return user;
 		},
 	});
 }
@@ -0,0 +1,102 @@
+import { createHash, randomBytes } from "node:crypto";
+import jwt from "jsonwebtoken";
+import { Prisma, UserRole } from "../../generated/prisma";
+import { getJwtSecret } from "../lib/auth";
+import { prisma } from "../lib/prisma";
+
+const ACCESS_TOKEN_TTL_SECONDS = Number(process.env.ACCESS_TOKEN_TTL_SECONDS ?? 15 * 60);
+const REFRESH_TOKEN_TTL_DAYS = Number(process.env.REFRESH_TOKEN_TTL_DAYS ?? 30);
+
+export interface SessionTokens {
+	token: string;
+	refreshToken: string;
+	expiresIn: number;
+}
+
+interface SessionOwner {
+	id: string;
+	role: UserRole;
+}
+
+interface SessionMeta {
+	userAgent?: string | undefined;
+	ip?: string | undefined;
+}
+
+export function hashToken(token: string): string {
+	return createHash("sha256").update(token).digest("hex");
+}
+
+function generateRefreshToken(): string {
+	return randomBytes(48).toString("base64url");
+}
+
+function refreshExpiry(): Date {
+	return new Date(Date.now() + REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000);
+}
+
+function signAccessToken(user: SessionOwner, sessionId: string): string {
+	return jwt.sign({ sub: user.id, role: user.role, sid: sessionId }, getJwtSecret(), {
+		expiresIn: ACCESS_TOKEN_TTL_SECONDS,
+	});
+}
+
+export async function createSession(user: SessionOwner, meta: SessionMeta): Promise<SessionTokens> {
+	const refreshToken = generateRefreshToken();
+	const session = await prisma.session.create({
+		data: {
+			userId: user.id,
+			refreshTokenHash: hashToken(refreshToken),
+			expiresAt: refreshExpiry(),
+			userAgent: meta.userAgent ?? null,
+			ip: meta.ip ?? null,
+		},
+		select: { id: true },
+	});
+	return { token: signAccessToken(user, session.id), refreshToken, expiresIn: ACCESS_TOKEN_TTL_SECONDS };
+}
+
+// Troca um refresh token válido por um novo par de tokens, invalidando o anterior.
+// Retorna null se o token for desconhecido, expirado ou revogado.
+export async function rotateSession(refreshToken: string): Promise<SessionTokens | null> {
+	const now = new Date();
+	const currentHash = hashToken(refreshToken);
+	const session = await prisma.session.findUnique({
+		where: { refreshTokenHash: currentHash },
+		include: { user: { select: { id: true, role: true } } },
+	});
+	if (!session || session.revokedAt || session.expiresAt <= now) return null;
+
+	const nextToken = generateRefreshToken();
+	// A condição no hash atual impede que duas chamadas concorrentes rotacionem o mesmo token
+	const { count } = await prisma.session.updateMany({
+		where: { id: session.id, refreshTokenHash: currentHash, revokedAt: null },
+		data: { refreshTokenHash: hashToken(nextToken), expiresAt: refreshExpiry(), lastUsedAt: now },
+	});
+	if (count === 0) return null;
+
+	return {
+		token: signAccessToken(session.user, session.id),
+		refreshToken: nextToken,
+		expiresIn: ACCESS_TOKEN_TTL_SECONDS,
+	};
+}
+
+export async function revokeSession(sessionId: string): Promise<void> {
+	await prisma.session.updateMany({
+		where: { id: sessionId, revokedAt: null },
+		data: { revokedAt: new Date() },
+	});
+}
+
+// Aceita um client de transação para revogar junto com outras alterações (ex.: troca de senha)
+export async function revokeAllSessions(
+	userId: string,
+	client: Prisma.TransactionClient = prisma,
+): Promise<number> {
+	const { count } = await client.session.updateMany({
+		where: { userId, revokedAt: null },
+		data: { revokedAt: new Date() },
+	});
+	return count;
+}
@@ -0,0 +1,83 @@
+import { randomBytes } from "node:crypto";
+import { Prisma, UserTokenType } from "../../generated/prisma";
+import { getMailer } from "../lib/mailer";
+import { prisma } from "../lib/prisma";
+import { hashToken } from "./sessions";
+
+const TOKEN_TTL_MINUTES: Record<UserTokenType, number> = {
+	EMAIL_VERIFICATION: 24 * 60,
+	PASSWORD_RESET: 60,
+};
+
+function escapeHtml(value: string): string {
+	return value.replace(/[&<>"']/g, (c) => `&#${c.charCodeAt(0)};`);
+}
+
+function getAppUrl(): string {
+	return process.env.APP_URL ?? "http://localhost:3000";
+}
+
+// Gera um token de uso único e invalida os anteriores do mesmo tipo.
+// Apenas o hash é persistido; o valor puro vai somente no e-mail.
+export async function issueUserToken(userId: string, type: UserTokenType): Promise<string> {
+	const token = randomBytes(32).toString("base64url");
+	const now = new Date();
+	await prisma.$transaction([
+		prisma.userToken.updateMany({
+			where: { userId, type, usedAt: null },
+			data: { usedAt: now },
+		}),
+		prisma.userToken.create({
+			data: {
+				userId,
+				type,
+				tokenHash: hashToken(token),
+				expiresAt: new Date(now.getTime() + TOKEN_TTL_MINUTES[type] * 60 * 1000),
+			},
+		}),
+	]);
+	return token;
+}
+
+// Marca o token como usado e retorna o id do usuário, ou null se inválido/expirado/já usado
+export async function consumeUserToken(
+	token: string,
+	type: UserTokenType,
+	client: Prisma.TransactionClient = prisma,
+): Promise<string | null> {
+	const now = new Date();
+	const record = await client.userToken.findUnique({
+		where: { tokenHash: hashToken(token) },
+		select: { id: true, userId: true, type: true },
+	});
+	if (!record || record.type !== type) return null;
+
+	// A condição em usedAt garante uso único mesmo com requisições concorrentes
+	const { count } = await client.userToken.updateMany({
+		where: { id: record.id, usedAt: null, expiresAt: { gt: now } },
+		data: { usedAt: now },
+	});
+	return count === 1 ? record.userId : null;
+}
+
+export async function sendVerificationEmail(user: { id: string; email: string; fullName: string }): Promise<void> {
+	const token = await issueUserToken(user.id, "EMAIL_VERIFICATION");
+	const link = `${getAppUrl()}/verify-email?token=${encodeURIComponent(token)}`;
+	await getMailer().send({
+		to: user.email,
+		subject: "Confirme seu e-mail",
+		text: `Olá, ${user.fullName}!\n\nConfirme seu e-mail acessando: ${link}\n\nO link expira em 24 horas.`,
+		html: `<p>Olá, ${escapeHtml(user.fullName)}!</p><p><a href="${link}">Confirme seu e-mail</a>. O link expira em 24 horas.</p>`,
+	});
+}
+
+export async function sendPasswordResetEmail(user: { id: string; email: string; fullName: string }): Promise<void> {
+	const token = await issueUserToken(user.id, "PASSWORD_RESET");
+	const link = `${getAppUrl()}/reset-password?token=${encodeURIComponent(token)}`;
+	await getMailer().send({
+		to: user.email,
+		subject: "Redefinição de senha",
+		text: `Olá, ${user.fullName}!\n\nPara redefinir sua senha acesse: ${link}\n\nO link expira em 1 hora. Se você não solicitou, ignore este e-mail.`,
+		html: `<p>Olá, ${escapeHtml(user.fullName)}!</p><p><a href="${link}">Redefina sua senha</a>. O link expira em 1 hora.</p><p>Se você não solicitou, ignore este e-mail.</p>`,
+	});
+}
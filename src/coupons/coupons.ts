@@ -0,0 +1,196 @@
+import { CreditTransaction, Prisma } from "../../generated/prisma";
+import { SYSTEM_ACCOUNTS } from "../credits/ledger";
+import { grantCredits } from "../credits/lots";
+import { prisma } from "../lib/prisma";
+
+export class CouponError extends Error {
+  constructor(message: string, readonly statusCode = 400) {
+    super(message);
+    this.name = "CouponError";
+  }
+}
+
+export interface CouponQuote {
+  couponId: string;
+  code: string;
+  originalPrice: Prisma.Decimal;
+  discount: Prisma.Decimal;
+  finalPrice: Prisma.Decimal;
+  bonusCredits: number;
+}
+
+// Como o cupom fica registrado no metadata da compra
+interface CouponMetadata {
+  id: string;
+  code: string;
+  bonusCredits: number;
+}
+
+export function normalizeCouponCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+// Limites de uso: reservas de compras pendentes contam junto com os usos confirmados
+async function assertWithinLimits(
+  client: Prisma.TransactionClient,
+  coupon: { id: string; maxRedemptions: number | null; perUserLimit: number | null },
+  userId: string,
+  statusCode?: number,
+): Promise<void> {
+  if (coupon.maxRedemptions !== null) {
+    const taken = await client.couponRedemption.count({ where: { couponId: coupon.id } });
+    if (taken >= coupon.maxRedemptions) {
+      throw new CouponError("Este cupom esgotou.", statusCode);
+    }
+  }
+  if (coupon.perUserLimit !== null) {
+    const used = await client.couponRedemption.count({ where: { couponId: coupon.id, userId } });
+    if (used >= coupon.perUserLimit) {
+      throw new CouponError("Você já atingiu o limite de uso deste cupom.", statusCode);
+    }
+  }
+}
+
+// Bloqueia a linha do cupom até o fim da transação e revalida os limites
+async function lockWithinLimits(tx: Prisma.TransactionClient, couponId: string, userId: string): Promise<void> {
+  await tx.$queryRaw`SELECT "id" FROM "Coupon" WHERE "id" = ${couponId} FOR UPDATE`;
+  const current = await tx.coupon.findUniqueOrThrow({ where: { id: couponId } });
+  await assertWithinLimits(tx, current, userId, 409);
+}
+
+// Valida o cupom para o usuário e o pacote e calcula o preço final
+export async function quoteCoupon(
+  code: string,
+  userId: string,
+  creditPackage: { id: string; price: Prisma.Decimal },
+  client: Prisma.TransactionClient = prisma,
+): Promise<CouponQuote> {
+  const coupon = await client.coupon.findUnique({
+    where: { code: normalizeCouponCode(code) },
+    include: { packages: { select: { id: true } } },
+  });
+
+  if (!coupon || !coupon.isActive) {
+    throw new CouponError("Cupom inválido.", 404);
+  }
+
+  const now = new Date();
+  if (coupon.validFrom && coupon.validFrom > now) {
+    throw new CouponError("Este cupom ainda não está válido.");
+  }
+  if (coupon.validUntil && coupon.validUntil < now) {
+    throw new CouponError("Este cupom expirou.");
+  }
+
+  if (coupon.packages.length > 0 && !coupon.packages.some((p) => p.id === creditPackage.id)) {
+    throw new CouponError("Este cupom não é válido para o pacote escolhido.");
+  }
+
+  await assertWithinLimits(client, coupon, userId);
+
+  const price = creditPackage.price;
+  let discount = new Prisma.Decimal(0);
+  if (coupon.discountType === "PERCENTAGE" && coupon.discountValue) {
+    discount = price.mul(coupon.discountValue).div(100).toDecimalPlaces(2);
+  } else if (coupon.discountType === "FIXED" && coupon.discountValue) {
+    discount = Prisma.Decimal.min(coupon.discountValue, price);
+  }
+
+  return {
+    couponId: coupon.id,
+    code: coupon.code,
+    originalPrice: price,
+    discount,
+    finalPrice: price.sub(discount),
+    bonusCredits: coupon.bonusCredits,
+  };
+}
+
+export function couponMetadata(quote: CouponQuote): Prisma.InputJsonObject {
+  return {
+    id: quote.couponId,
+    code: quote.code,
+    bonusCredits: quote.bonusCredits,
+    discount: quote.discount.toFixed(2),
+    originalPrice: quote.originalPrice.toFixed(2),
+  };
+}
+
+// Resumo do desconto devolvido ao cliente
+export function couponSummary(quote: CouponQuote) {
+  return {
+    code: quote.code,
+    originalPrice: quote.originalPrice.toNumber(),
+    discount: quote.discount.toNumber(),
+    finalPrice: quote.finalPrice.toNumber(),
+    bonusCredits: quote.bonusCredits,
+  };
+}
+
+// Reserva uma vaga do cupom para a compra pendente, com a linha do cupom bloqueada:
+// compras abertas em paralelo não passam juntas do limite
+export async function reserveCoupon(
+  tx: Prisma.TransactionClient,
+  quote: CouponQuote,
+  userId: string,
+  transactionId: string,
+): Promise<void> {
+  await lockWithinLimits(tx, quote.couponId, userId);
+  await tx.couponRedemption.create({
+    data: { couponId: quote.couponId, userId, transactionId, status: "RESERVED" },
+  });
+}
+
+// Libera a vaga de uma compra cancelada, recusada ou expirada
+export async function releaseCouponReservation(tx: Prisma.TransactionClient, transactionId: string): Promise<void> {
+  await tx.couponRedemption.deleteMany({ where: { transactionId, status: "RESERVED" } });
+}
+
+// Confirma o uso do cupom quando a compra é aprovada e concede os créditos bônus,
+// que vencem junto com os créditos comprados. A unicidade por transação impede contagem dupla.
+export async function redeemCoupon(
+  tx: Prisma.TransactionClient,
+  purchase: CreditTransaction,
+  creditsExpireAt: Date | null = null,
+): Promise<void> {
+  const coupon = (purchase.metadata as Prisma.JsonObject | null)?.coupon as CouponMetadata | undefined;
+  if (!coupon?.id) return;
+
+  const reservation = await tx.couponRedemption.findUnique({ where: { transactionId: purchase.id } });
+  if (reservation?.status === "REDEEMED") return;
+
+  if (reservation) {
+    await tx.couponRedemption.update({ where: { id: reservation.id }, data: { status: "REDEEMED" } });
+  } else {
+    // A reserva foi liberada (ex.: PIX pago depois do prazo). Sem vaga, compras gratuitas são
+    // recusadas; compras pagas são concluídas com o desconto já cobrado, mas sem os créditos bônus.
+    try {
+      await lockWithinLimits(tx, coupon.id, purchase.userId);
+    } catch (error: unknown) {
+      if (!(error instanceof CouponError) || purchase.price?.isZero()) throw error;
+      console.warn(`⚠️ Cupom ${coupon.code} acima do limite na compra ${purchase.id}; bônus não concedido.`);
+      return;
+    }
+    await tx.couponRedemption.create({
+      data: { couponId: coupon.id, userId: purchase.userId, transactionId: purchase.id },
+    });
+  }
+
+  await tx.coupon.update({
+    where: { id: coupon.id },
+    data: { redemptionCount: { increment: 1 } },
+  });
+
+  if (coupon.bonusCredits > 0) {
+    const bonus = await tx.creditTransaction.create({
+      data: {
+        type: "BONUS",
+        status: "COMPLETED",
+        amount: coupon.bonusCredits,
+        userId: purchase.userId,
+        metadata: { reason: `Cupom ${coupon.code}`, couponId: coupon.id, purchaseId: purchase.id },
+      },
+    });
+    await grantCredits(tx, purchase.userId, coupon.bonusCredits, bonus.id, SYSTEM_ACCOUNTS.BONUS, creditsExpireAt);
+  }
+}
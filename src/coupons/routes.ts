@@ -0,0 +1,238 @@
+import { FastifyInstance } from "fastify";
+import { z } from "zod";
+import { Prisma } from "../../generated/prisma";
+import { requireRole } from "../lib/auth";
+import { prisma } from "../lib/prisma";
+import { CouponError, couponSummary, normalizeCouponCode, quoteCoupon } from "./coupons";
+
+const DISCOUNT_TYPES = ["PERCENTAGE", "FIXED"] as const;
+
+const couponInclude = {
+  packages: { select: { id: true, name: true } },
+};
+
+const couponJsonProperties = {
+  description: { type: "string" },
+  discountType: { type: ["string", "null"], enum: [...DISCOUNT_TYPES, null] },
+  discountValue: { type: ["number", "null"], minimum: 0 },
+  bonusCredits: { type: "integer", minimum: 0 },
+  maxRedemptions: { type: ["integer", "null"], minimum: 1 },
+  perUserLimit: { type: ["integer", "null"], minimum: 1 },
+  validFrom: { type: ["string", "null"], format: "date-time" },
+  validUntil: { type: ["string", "null"], format: "date-time" },
+  isActive: { type: "boolean" },
+  packageIds: { type: "array", items: { type: "string", format: "uuid" } },
+};
+
+const couponFieldsSchema = z.object({
+  description: z.string().optional(),
+  discountType: z.enum(DISCOUNT_TYPES).nullable().optional(),
+  discountValue: z.number().min(0).nullable().optional(),
+  bonusCredits: z.number().int().min(0).optional(),
+  maxRedemptions: z.number().int().min(1).nullable().optional(),
+  perUserLimit: z.number().int().min(1).nullable().optional(),
+  validFrom: z.coerce.date().nullable().optional(),
+  validUntil: z.coerce.date().nullable().optional(),
+  isActive: z.boolean().optional(),
+  packageIds: z.array(z.string().uuid()).optional(),
+});
+
+type CouponFields = z.infer<typeof couponFieldsSchema>;
+
+// Regras que dependem da combinação dos campos; retorna a mensagem de erro, se houver
+function validateCoupon(fields: CouponFields): string | null {
+  if ((fields.discountType ?? null) !== null && (fields.discountValue ?? null) === null) {
+    return "Informe discountValue junto com discountType.";
+  }
+  if (fields.discountType === "PERCENTAGE" && fields.discountValue != null && fields.discountValue > 100) {
+    return "O desconto percentual deve ser de no máximo 100%.";
+  }
+  if (!fields.discountType && !fields.bonusCredits) {
+    return "O cupom precisa de um desconto ou de créditos bônus.";
+  }
+  if (fields.validFrom && fields.validUntil && fields.validFrom >= fields.validUntil) {
+    return "validUntil deve ser posterior a validFrom.";
+  }
+  return null;
+}
+
+function toCouponData(fields: CouponFields) {
+  const data: Prisma.CouponUncheckedUpdateInput = {};
+  if (fields.description !== undefined) data.description = fields.description;
+  if (fields.discountType !== undefined) data.discountType = fields.discountType;
+  if (fields.discountValue !== undefined) {
+    data.discountValue = fields.discountValue === null ? null : new Prisma.Decimal(fields.discountValue);
+  }
+  if (fields.bonusCredits !== undefined) data.bonusCredits = fields.bonusCredits;
+  if (fields.maxRedemptions !== undefined) data.maxRedemptions = fields.maxRedemptions;
+  if (fields.perUserLimit !== undefined) data.perUserLimit = fields.perUserLimit;
+  if (fields.validFrom !== undefined) data.validFrom = fields.validFrom;
+  if (fields.validUntil !== undefined) data.validUntil = fields.validUntil;
+  if (fields.isActive !== undefined) data.isActive = fields.isActive;
+  return data;
+}
+
+export async function couponsRoutes(app: FastifyInstance): Promise<void> {
+
+  // POST /coupons - Criar cupom (admin)
+  app.post<{ Body: unknown }>("/", {
+    preHandler: requireRole("ADMIN"),
+    schema: {
+      body: {
+        type: "object",
+        required: ["code"],
+        properties: {
+          code: { type: "string", minLength: 3, maxLength: 40 },
+          ...couponJsonProperties,
+        },
+      },
+    },
+    handler: async (request, reply) => {
+      const bodySchema = couponFieldsSchema.extend({
+        code: z.string().regex(/^[A-Za-z0-9_-]{3,40}$/, "Use letras, números, _ ou -"),
+      });
+
+      const { code, packageIds, ...fields } = bodySchema.parse(request.body);
+
+      const problem = validateCoupon(fields);
+      if (problem) {
+        return reply.code(400).send({ message: problem });
+      }
+
+      try {
+        const coupon = await prisma.coupon.create({
+          data: {
+            ...(toCouponData(fields) as Prisma.CouponCreateInput),
+            code: normalizeCouponCode(code),
+            ...(packageIds && { packages: { connect: packageIds.map((id) => ({ id })) } }),
+          },
+          include: couponInclude,
+        });
+
+        return reply.code(201).send(coupon);
+      } catch (error: unknown) {
+        if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
+          return reply.code(409).send({ message: "Já existe um cupom com este código." });
+        }
+        if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2025") {
+          return reply.code(400).send({ message: "Pacote de créditos não encontrado." });
+        }
+        throw error;
+      }
+    },
+  });
+
+  // GET /coupons - Listar cupons (admin)
+  app.get("/", {
+    preHandler: requireRole("ADMIN"),
+    handler: async () => {
+      const coupons = await prisma.coupon.findMany({
+        orderBy: { createdAt: "desc" },
+        include: couponInclude,
+      });
+
+      return { coupons };
+    },
+  });
+
+  // PATCH /coupons/:id - Atualizar cupom (admin); packageIds substitui as restrições atuais
+  app.patch<{ Params: { id: string }; Body: unknown }>("/:id", {
+    preHandler: requireRole("ADMIN"),
+    schema: {
+      params: {
+        type: "object",
+        required: ["id"],
+        properties: {
+          id: { type: "string", format: "uuid" },
+        },
+      },
+      body: {
+        type: "object",
+        properties: couponJsonProperties,
+        additionalProperties: false,
+      },
+    },
+    handler: async (request, reply) => {
+      const paramsSchema = z.object({ id: z.string().uuid() });
+      const { id } = paramsSchema.parse(request.params);
+      const { packageIds, ...fields } = couponFieldsSchema.strict().parse(request.body ?? {});
+
+      const existing = await prisma.coupon.findUnique({ where: { id } });
+      if (!existing) {
+        return reply.code(404).send({ message: "Cupom não encontrado." });
+      }
+
+      // Valida o cupom como ficará depois da alteração
+      const problem = validateCoupon({
+        discountType: existing.discountType,
+        discountValue: existing.discountValue?.toNumber() ?? null,
+        bonusCredits: existing.bonusCredits,
+        validFrom: existing.validFrom,
+        validUntil: existing.validUntil,
+        ...fields,
+      });
+      if (problem) {
+        return reply.code(400).send({ message: problem });
+      }
+
+      const data = toCouponData(fields) as Prisma.CouponUpdateInput;
+      if (packageIds) {
+        data.packages = { set: packageIds.map((packageId) => ({ id: packageId })) };
+      }
+
+      if (Object.keys(data).length === 0) {
+        return reply.code(400).send({ message: "Nada para atualizar." });
+      }
+
+      try {
+        return await prisma.coupon.update({ where: { id }, data, include: couponInclude });
+      } catch (error: unknown) {
+        if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2025") {
+          return reply.code(400).send({ message: "Pacote de créditos não encontrado." });
+        }
+        throw error;
+      }
+    },
+  });
+
+  // POST /coupons/validate - Conferir um cupom para um pacote antes do pagamento
+  app.post<{ Body: unknown }>("/validate", {
+    schema: {
+      body: {
+        type: "object",
+        required: ["code", "packageId"],
+        properties: {
+          code: { type: "string", minLength: 1 },
+          packageId: { type: "string", format: "uuid" },
+        },
+      },
+    },
+    handler: async (request, reply) => {
+      const bodySchema = z.object({
+        code: z.string().min(1),
+        packageId: z.string().uuid(),
+      });
+
+      const { code, packageId } = bodySchema.parse(request.body);
+
+      const creditPackage = await prisma.creditPackage.findFirst({
+        where: { id: packageId, isActive: true },
+        select: { id: true, price: true, credits: true },
+      });
+
+      if (!creditPackage) {
+        return reply.code(404).send({ message: "Pacote de créditos não encontrado ou inativo." });
+      }
+
+      try {
+        const quote = await quoteCoupon(code, request.user.id, creditPackage);
+        return { valid: true, packageId, credits: creditPackage.credits, ...couponSummary(quote) };
+      } catch (error: unknown) {
+        if (error instanceof CouponError) {
+          return reply.code(error.statusCode).send({ valid: false, message: error.message });
+        }
+        throw error;
+      }
+    },
+  });
+}
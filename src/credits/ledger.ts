@@ -0,0 +1,115 @@
+import { Prisma } from "../../generated/prisma";
+import { prisma } from "../lib/prisma";
+
+// Contas do sistema que servem de contrapartida para os saldos dos usuários
+export const SYSTEM_ACCOUNTS = {
+  SALES: "system:sales", // Créditos vendidos em pacotes
+  BONUS: "system:bonus", // Créditos concedidos por administradores
+  SUBSCRIPTIONS: "system:subscriptions", // Créditos mensais dos planos de assinatura
+  HELD: "system:held", // Créditos reservados para entrevistas em andamento
+  CONSUMED: "system:consumed", // Créditos efetivamente usados em entrevistas
+  EXPIRED: "system:expired", // Créditos que venceram sem uso
+} as const;
+
+export type SystemAccount = (typeof SYSTEM_ACCOUNTS)[keyof typeof SYSTEM_ACCOUNTS];
+
+// Lançamentos mais novos que isso ficam fora do snapshot, pois transações
+// ainda abertas podem gravar ids menores depois
+const SNAPSHOT_LAG_SECONDS = 60;
+
+export function userAccount(userId: string): string {
+  return `user:${userId}`;
+}
+
+// Registra o lançamento em partidas dobradas: amount sai de "from" e entra em "to"
+async function post(
+  tx: Prisma.TransactionClient,
+  transactionId: string,
+  from: { account: string; userId?: string },
+  to: { account: string; userId?: string },
+  amount: number,
+): Promise<void> {
+  await tx.ledgerEntry.createMany({
+    data: [
+      { account: from.account, userId: from.userId ?? null, amount: -amount, transactionId },
+      { account: to.account, userId: to.userId ?? null, amount, transactionId },
+    ],
+  });
+}
+
+// Credita o saldo do usuário a partir de uma conta do sistema.
+// Deve ser chamada dentro de uma transação, junto com a gravação da CreditTransaction.
+export async function creditUser(
+  tx: Prisma.TransactionClient,
+  userId: string,
+  amount: number,
+  transactionId: string,
+  from: SystemAccount,
+): Promise<number> {
+  const user = await tx.user.update({
+    where: { id: userId },
+    data: { credits: { increment: amount } },
+    select: { credits: true },
+  });
+  await post(tx, transactionId, { account: from }, { account: userAccount(userId), userId }, amount);
+  return user.credits;
+}
+
+// Debita o saldo do usuário para uma conta do sistema; retorna null, sem alterar nada,
+// se o saldo não for suficiente
+export async function debitUser(
+  tx: Prisma.TransactionClient,
+  userId: string,
+  amount: number,
+  transactionId: string,
+  to: SystemAccount,
+): Promise<number | null> {
+  const { count } = await tx.user.updateMany({
+    where: { id: userId, credits: { gte: amount } },
+    data: { credits: { decrement: amount } },
+  });
+  if (count === 0) return null;
+
+  await post(tx, transactionId, { account: userAccount(userId), userId }, { account: to }, amount);
+  const user = await tx.user.findUniqueOrThrow({ where: { id: userId }, select: { credits: true } });
+  return user.credits;
+}
+
+// Movimenta créditos entre contas do sistema (ex.: reserva confirmada vira consumo)
+export async function transferSystem(
+  tx: Prisma.TransactionClient,
+  transactionId: string,
+  from: SystemAccount,
+  to: SystemAccount,
+  amount: number,
+): Promise<void> {
+  await post(tx, transactionId, { account: from }, { account: to }, amount);
+}
+
+// Saldo derivado do livro-razão: último snapshot mais os lançamentos posteriores
+export async function getBalance(userId: string, client: Prisma.TransactionClient = prisma): Promise<number> {
+  const snapshot = await client.creditBalanceSnapshot.findUnique({ where: { userId } });
+  const tail = await client.ledgerEntry.aggregate({
+    where: { userId, id: { gt: snapshot?.lastEntryId ?? 0 } },
+    _sum: { amount: true },
+  });
+  return (snapshot?.balance ?? 0) + (tail._sum.amount ?? 0);
+}
+
+// Avança os snapshots de todos os usuários com lançamentos novos
+export async function refreshBalanceSnapshots(): Promise<number> {
+  const count = await prisma.$executeRaw`
+    INSERT INTO "CreditBalanceSnapshot" ("userId", "balance", "lastEntryId", "updatedAt")
+    SELECT e."userId", COALESCE(s."balance", 0) + SUM(e."amount"), MAX(e."id"), NOW()
+    FROM "LedgerEntry" e
+    LEFT JOIN "CreditBalanceSnapshot" s ON s."userId" = e."userId"
+    WHERE e."userId" IS NOT NULL
+      AND e."id" > COALESCE(s."lastEntryId", 0)
+      AND e."createdAt" < NOW() - make_interval(secs => ${SNAPSHOT_LAG_SECONDS})
+    GROUP BY e."userId", s."balance"
+    ON CONFLICT ("userId") DO UPDATE
+    SET "balance" = EXCLUDED."balance", "lastEntryId" = EXCLUDED."lastEntryId", "updatedAt" = NOW()
+  `;
+  if (count > 0) console.log(`📒 ${count} snapshot(s) de saldo atualizado(s)`);
+  return count;
+}
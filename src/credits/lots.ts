@@ -0,0 +1,179 @@
+import { Prisma } from "../../generated/prisma";
+import { prisma } from "../lib/prisma";
+import { SYSTEM_ACCOUNTS, SystemAccount, creditUser, debitUser } from "./ledger";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Data de vencimento de créditos com validade em dias; nulo quando não vencem
+export function creditsExpiry(validityDays: number | null | undefined, from = new Date()): Date | null {
+  return validityDays ? new Date(from.getTime() + validityDays * DAY_MS) : null;
+}
+
+// Credita o saldo do usuário registrando um novo lote (compras e bônus)
+export async function grantCredits(
+  tx: Prisma.TransactionClient,
+  userId: string,
+  amount: number,
+  transactionId: string,
+  from: SystemAccount,
+  expiresAt: Date | null = null,
+): Promise<number> {
+  const balance = await creditUser(tx, userId, amount, transactionId, from);
+  await tx.creditLot.create({ data: { userId, transactionId, amount, remaining: amount, expiresAt } });
+  return balance;
+}
+
+// Retira os créditos dos lotes: primeiro os das transações preferidas, depois os que vencem antes
+// e, por último, os que não vencem
+async function drawLots(
+  tx: Prisma.TransactionClient,
+  userId: string,
+  amount: number,
+  transactionId: string,
+  preferLotsOf?: string | string[],
+): Promise<void> {
+  const lots = await tx.creditLot.findMany({
+    where: { userId, remaining: { gt: 0 } },
+    orderBy: [{ expiresAt: { sort: "asc", nulls: "last" } }, { createdAt: "asc" }],
+    select: { id: true, remaining: true, transactionId: true },
+  });
+  if (preferLotsOf) {
+    const preferred = new Set(Array.isArray(preferLotsOf) ? preferLotsOf : [preferLotsOf]);
+    const isPreferred = (lot: { transactionId: string | null }) => !!lot.transactionId && preferred.has(lot.transactionId);
+    lots.sort((a, b) => Number(isPreferred(b)) - Number(isPreferred(a)));
+  }
+
+  let left = amount;
+  const usages: Prisma.CreditLotUsageCreateManyInput[] = [];
+  for (const lot of lots) {
+    if (left === 0) break;
+    const taken = Math.min(left, lot.remaining);
+    await tx.creditLot.update({ where: { id: lot.id }, data: { remaining: { decrement: taken } } });
+    usages.push({ lotId: lot.id, transactionId, amount: taken });
+    left -= taken;
+  }
+
+  // O saldo já foi debitado; lotes insuficientes indicam divergência e desfazem a transação
+  if (left > 0) {
+    throw new Error(`Lotes de créditos do usuário ${userId} não cobrem o saldo (faltam ${left}).`);
+  }
+  await tx.creditLotUsage.createMany({ data: usages });
+}
+
+// Debita o saldo consumindo os lotes que vencem primeiro. Lotes já vencidos são baixados
+// antes, para não serem usados. Retorna null, sem debitar, se o saldo não for suficiente.
+export async function spendCredits(
+  tx: Prisma.TransactionClient,
+  userId: string,
+  amount: number,
+  transactionId: string,
+  to: SystemAccount,
+  preferLotsOf?: string | string[],
+): Promise<number | null> {
+  await expireUserLots(tx, userId);
+  const balance = await debitUser(tx, userId, amount, transactionId, to);
+  if (balance === null) return null;
+  await drawLots(tx, userId, amount, transactionId, preferLotsOf);
+  return balance;
+}
+
+// Devolve créditos retirados por sourceTransactionId aos lotes de origem, começando pelos que
+// vencem por último, e mantém o vencimento original. O que não tiver lote de origem
+// (débitos anteriores aos lotes) vira um lote sem vencimento.
+export async function restoreCredits(
+  tx: Prisma.TransactionClient,
+  userId: string,
+  amount: number,
+  transactionId: string,
+  from: SystemAccount,
+  sourceTransactionId: string,
+): Promise<number> {
+  const balance = await creditUser(tx, userId, amount, transactionId, from);
+
+  const usages = await tx.creditLotUsage.findMany({
+    where: { transactionId: sourceTransactionId, amount: { gt: 0 } },
+    include: { lot: { select: { expiresAt: true } } },
+  });
+  usages.sort((a, b) => (b.lot.expiresAt?.getTime() ?? Infinity) - (a.lot.expiresAt?.getTime() ?? Infinity));
+
+  let left = amount;
+  for (const usage of usages) {
+    if (left === 0) break;
+    const restored = Math.min(left, usage.amount);
+    await tx.creditLotUsage.update({ where: { id: usage.id }, data: { amount: { decrement: restored } } });
+    await tx.creditLot.update({ where: { id: usage.lotId }, data: { remaining: { increment: restored } } });
+    left -= restored;
+  }
+
+  if (left > 0) {
+    await tx.creditLot.create({ data: { userId, transactionId, amount: left, remaining: left } });
+  }
+  return balance;
+}
+
+// Baixa os lotes vencidos do usuário, registrando uma transação EXPIRATION para cada um.
+// O saldo do usuário fica bloqueado até o fim da transação, na mesma ordem usada pelos débitos.
+export async function expireUserLots(
+  tx: Prisma.TransactionClient,
+  userId: string,
+  now = new Date(),
+): Promise<number> {
+  await tx.$queryRaw`SELECT "id" FROM "User" WHERE "id" = ${userId} FOR UPDATE`;
+  const lots = await tx.creditLot.findMany({
+    where: { userId, remaining: { gt: 0 }, expiresAt: { lte: now } },
+    select: { id: true, remaining: true, expiresAt: true },
+  });
+
+  let expired = 0;
+  for (const lot of lots) {
+    await tx.creditLot.update({ where: { id: lot.id }, data: { remaining: 0 } });
+
+    const expiration = await tx.creditTransaction.create({
+      data: {
+        type: "EXPIRATION",
+        status: "COMPLETED",
+        amount: -lot.remaining,
+        userId,
+        metadata: { lotId: lot.id, expiresAt: lot.expiresAt?.toISOString() ?? null },
+      },
+    });
+    await tx.creditLotUsage.create({ data: { lotId: lot.id, transactionId: expiration.id, amount: lot.remaining } });
+
+    const balance = await debitUser(tx, userId, lot.remaining, expiration.id, SYSTEM_ACCOUNTS.EXPIRED);
+    if (balance === null) {
+      throw new Error(`Saldo do usuário ${userId} menor que o lote vencido ${lot.id}.`);
+    }
+    expired += lot.remaining;
+  }
+  return expired;
+}
+
+// Varredura periódica: baixa os lotes vencidos e registra os lançamentos de vencimento
+export async function expireCreditLots(): Promise<number> {
+  const now = new Date();
+  const due = await prisma.creditLot.findMany({
+    where: { remaining: { gt: 0 }, expiresAt: { lte: now } },
+    distinct: ["userId"],
+    select: { userId: true },
+    take: 100,
+  });
+
+  let total = 0;
+  for (const { userId } of due) {
+    total += await prisma.$transaction((tx) => expireUserLots(tx, userId, now));
+  }
+
+  if (total > 0) console.log(`🗓️ ${total} crédito(s) vencido(s) de ${due.length} usuário(s)`);
+  return total;
+}
+
+// Próximos vencimentos do usuário, do mais próximo para o mais distante
+export async function getUpcomingExpirations(userId: string, client: Prisma.TransactionClient = prisma) {
+  const lots = await client.creditLot.findMany({
+    where: { userId, remaining: { gt: 0 }, expiresAt: { gt: new Date() } },
+    orderBy: { expiresAt: "asc" },
+    select: { remaining: true, expiresAt: true },
+    take: 20,
+  });
+  return lots.map((lot) => ({ credits: lot.remaining, expiresAt: lot.expiresAt }));
+}
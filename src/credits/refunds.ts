@@ -0,0 +1,101 @@
+import { Prisma, TransactionType } from "../../generated/prisma";
+import { inTransaction, prisma } from "../lib/prisma";
+import { issueCreditNote } from "../payments/invoices";
+import { SYSTEM_ACCOUNTS } from "./ledger";
+import { restoreCredits, spendCredits } from "./lots";
+
+export class RefundError extends Error {
+  constructor(message: string, readonly statusCode: number) {
+    super(message);
+    this.name = "RefundError";
+  }
+}
+
+export interface RefundInput {
+  type: Extract<TransactionType, "PURCHASE" | "CONSUMPTION">;
+  credits?: number | undefined; // Sem valor, estorna todo o restante
+  reason: string;
+  refundedBy: string;
+}
+
+// Estorna (total ou parcialmente) uma compra ou um consumo concluído.
+// Compras: retira os créditos do saldo e devolve o valor proporcional.
+// Consumos: devolve os créditos ao saldo.
+export async function refundTransaction(
+  transactionId: string,
+  input: RefundInput,
+  client: Prisma.TransactionClient = prisma,
+) {
+  return inTransaction(client, async (tx) => {
+    const original = await tx.creditTransaction.findUnique({ where: { id: transactionId } });
+
+    if (!original || original.type !== input.type) {
+      throw new RefundError("Transação não encontrada.", 404);
+    }
+
+    if (original.status !== "COMPLETED") {
+      throw new RefundError("Apenas transações concluídas podem ser estornadas.", 409);
+    }
+
+    // Os créditos da assinatura vêm da concessão mensal, não da cobrança
+    if (original.type === "PURCHASE" && original.subscriptionId) {
+      throw new RefundError("Cobranças de assinatura não podem ser estornadas por créditos.", 409);
+    }
+
+    const refundable = Math.abs(original.amount);
+    const remaining = refundable - original.refundedAmount;
+    const credits = input.credits ?? remaining;
+
+    if (remaining <= 0) {
+      throw new RefundError("Esta transação já foi totalmente estornada.", 409);
+    }
+
+    // A condição garante que estornos concorrentes nunca ultrapassem o valor original
+    const { count } = await tx.creditTransaction.updateMany({
+      where: { id: original.id, refundedAmount: { lte: refundable - credits } },
+      data: { refundedAmount: { increment: credits } },
+    });
+    if (count === 0) {
+      throw new RefundError(`O estorno excede o valor disponível (restante: ${remaining} créditos).`, 409);
+    }
+
+    const isPurchase = original.type === "PURCHASE";
+    const price = isPurchase && original.price
+      ? original.price.mul(credits).div(refundable).toDecimalPlaces(2)
+      : null;
+
+    const refund = await tx.creditTransaction.create({
+      data: {
+        type: "REFUND",
+        status: "COMPLETED",
+        amount: isPurchase ? -credits : credits,
+        price,
+        userId: original.userId,
+        packageId: original.packageId,
+        jobId: original.jobId,
+        sessionId: original.sessionId,
+        refundOfId: original.id,
+        metadata: { reason: input.reason, refundedBy: input.refundedBy },
+      },
+    });
+
+    let newBalance: number | null;
+    if (isPurchase) {
+      // Retira primeiro do lote criado pela própria compra
+      newBalance = await spendCredits(tx, original.userId, credits, refund.id, SYSTEM_ACCOUNTS.SALES, original.id);
+      if (newBalance === null) {
+        throw new RefundError("O usuário não possui saldo suficiente para estornar esses créditos.", 409);
+      }
+      await issueCreditNote(tx, refund.id);
+    } else {
+      newBalance = await restoreCredits(tx, original.userId, credits, refund.id, SYSTEM_ACCOUNTS.CONSUMED, original.id);
+    }
+
+    return {
+      refund,
+      refundedCredits: original.refundedAmount + credits,
+      remainingRefundable: remaining - credits,
+      newBalance,
+    };
+  });
+}
@@ -0,0 +1,192 @@
+import { CreditTransaction, InterviewType, Prisma } from "../../generated/prisma";
+import { inTransaction, prisma } from "../lib/prisma";
+import { SYSTEM_ACCOUNTS, transferSystem } from "./ledger";
+import { restoreCredits, spendCredits } from "./lots";
+
+// Reservas sem sessão em andamento há mais tempo que isso são consideradas abandonadas
+const STALE_RESERVATION_MINUTES = 15;
+
+// Função para calcular o custo de créditos baseado no tipo de entrevista
+export function getCreditsCost(interviewType: InterviewType, durationMinutes: number): number {
+  const baseCosts: Record<InterviewType, number> = {
+    TEXT: 1,
+    VOICE: 2,
+    AVATAR: 3
+  };
+  
+  const baseCost = baseCosts[interviewType] || 1;
+  
+  // Adiciona custo extra para entrevistas mais longas
+  if (durationMinutes > 30) {
+    return baseCost * 2;
+  }
+  
+  return baseCost;
+}
+
+export class InsufficientCreditsError extends Error {
+  constructor(readonly required: number, readonly available: number) {
+    super("Créditos insuficientes.");
+    this.name = "InsufficientCreditsError";
+  }
+}
+
+export function sessionReservationKey(sessionId: string): string {
+  return `session:${sessionId}`;
+}
+
+export function jobReservationKey(jobId: string): string {
+  return `job:${jobId}`;
+}
+
+export interface ReservationInput {
+  key: string;
+  userId: string;
+  amount: number;
+  jobId?: string;
+  sessionId?: string;
+}
+
+export interface Reservation {
+  transaction: CreditTransaction;
+  remainingCredits: number;
+  created: boolean; // false quando a chave já tinha uma reserva ativa
+}
+
+async function reserve(tx: Prisma.TransactionClient, input: ReservationInput): Promise<Reservation> {
+  const existing = await tx.creditTransaction.findUnique({ where: { reservationKey: input.key } });
+
+  if (existing) {
+    const user = await tx.user.findUniqueOrThrow({ where: { id: input.userId }, select: { credits: true } });
+    return { transaction: existing, remainingCredits: user.credits, created: false };
+  }
+
+  const transaction = await tx.creditTransaction.create({
+    data: {
+      type: "CONSUMPTION",
+      status: "PENDING",
+      amount: -input.amount, // Negativo para consumo
+      userId: input.userId,
+      jobId: input.jobId ?? null,
+      sessionId: input.sessionId ?? null,
+      reservationKey: input.key,
+    },
+  });
+
+  // O débito só acontece se houver saldo; a condição é avaliada pelo banco, sem janela de corrida
+  const remainingCredits = await spendCredits(tx, input.userId, input.amount, transaction.id, SYSTEM_ACCOUNTS.HELD);
+  if (remainingCredits === null) {
+    const user = await tx.user.findUnique({ where: { id: input.userId }, select: { credits: true } });
+    throw new InsufficientCreditsError(input.amount, user?.credits ?? 0);
+  }
+
+  return { transaction, remainingCredits, created: true };
+}
+
+// Reserva (debita) créditos de forma idempotente: repetir a chamada com a mesma chave
+// devolve a reserva existente sem cobrar novamente
+export async function reserveCredits(
+  input: ReservationInput,
+  client: Prisma.TransactionClient = prisma,
+): Promise<Reservation> {
+  try {
+    return await inTransaction(client, (tx) => reserve(tx, input));
+  } catch (error: unknown) {
+    // Outra requisição com a mesma chave reservou primeiro; esta foi desfeita por inteiro
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002" && client === prisma) {
+      return inTransaction(client, (tx) => reserve(tx, input));
+    }
+    throw error;
+  }
+}
+
+// Confirma o consumo dos créditos reservados
+export async function commitReservation(key: string, client: Prisma.TransactionClient = prisma): Promise<boolean> {
+  return inTransaction(client, async (tx) => {
+    const hold = await tx.creditTransaction.findUnique({ where: { reservationKey: key } });
+    if (!hold) return false;
+
+    const { count } = await tx.creditTransaction.updateMany({
+      where: { id: hold.id, status: "PENDING" },
+      data: { status: "COMPLETED" },
+    });
+    if (count === 0) return false;
+
+    await transferSystem(tx, hold.id, SYSTEM_ACCOUNTS.HELD, SYSTEM_ACCOUNTS.CONSUMED, -hold.amount);
+    return true;
+  });
+}
+
+// Devolve os créditos de uma reserva ainda pendente, registrando um REFUND.
+// A reserva fica como consumo totalmente estornado e libera a chave para uma nova reserva.
+export async function releaseReservation(
+  key: string,
+  reason: string,
+  client: Prisma.TransactionClient = prisma,
+): Promise<boolean> {
+  return inTransaction(client, async (tx) => {
+    const hold = await tx.creditTransaction.findUnique({ where: { reservationKey: key } });
+    if (!hold) return false;
+
+    const { count } = await tx.creditTransaction.updateMany({
+      where: { id: hold.id, status: "PENDING" },
+      data: { status: "COMPLETED", refundedAmount: -hold.amount, reservationKey: null },
+    });
+    if (count === 0) return false;
+
+    const refund = await tx.creditTransaction.create({
+      data: {
+        type: "REFUND",
+        status: "COMPLETED",
+        amount: -hold.amount,
+        userId: hold.userId,
+        jobId: hold.jobId,
+        sessionId: hold.sessionId,
+        refundOfId: hold.id,
+        metadata: { reason },
+      },
+    });
+    await restoreCredits(tx, hold.userId, -hold.amount, refund.id, SYSTEM_ACCOUNTS.HELD, hold.id);
+    return true;
+  });
+}
+
+// Varredura periódica: resolve reservas cujas sessões terminaram sem acertar os créditos
+// (ex.: queda do servidor entre a mudança de estado e o acerto)
+export async function settleStaleReservations(): Promise<void> {
+  const finished = await prisma.creditTransaction.findMany({
+    where: {
+      type: "CONSUMPTION",
+      status: "PENDING",
+      session: { status: { in: ["COMPLETED", "EXPIRED"] } },
+    },
+    select: { reservationKey: true },
+  });
+
+  let committed = 0;
+  for (const { reservationKey } of finished) {
+    if (reservationKey && (await commitReservation(reservationKey))) committed++;
+  }
+
+  const staleBefore = new Date(Date.now() - STALE_RESERVATION_MINUTES * 60 * 1000);
+  const orphaned = await prisma.creditTransaction.findMany({
+    where: {
+      type: "CONSUMPTION",
+      status: "PENDING",
+      OR: [
+        { session: { status: "CANCELLED" } },
+        { session: { status: "SCHEDULED" }, updatedAt: { lt: staleBefore } },
+      ],
+    },
+    select: { reservationKey: true },
+  });
+
+  let released = 0;
+  for (const { reservationKey } of orphaned) {
+    if (reservationKey && (await releaseReservation(reservationKey, "Reserva não utilizada"))) released++;
+  }
+
+  if (committed > 0 || released > 0) {
+    console.log(`💳 Reservas acertadas: ${committed} confirmada(s), ${released} devolvida(s)`);
+  }
+}
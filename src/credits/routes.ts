@@ -1,25 +1,19 @@
 import { FastifyInstance } from "fastify";
 import { z } from "zod";
 import { Prisma } from "../../generated/prisma";
+import { canAccessUser, requireRole } from "../lib/auth";
+import { idempotencyKey, storeIdempotentResponse } from "../lib/idempotency";
 import { prisma } from "../lib/prisma";
-
-// Função para calcular o custo de créditos baseado no tipo de entrevista
-function getCreditsCost(interviewType: string, durationMinutes: number): number {
-  const baseCosts = {
-    TEXT: 1,
-    VOICE: 2,
-    AVATAR: 3
-  };
-  
-  const baseCost = baseCosts[interviewType as keyof typeof baseCosts] || 1;
-  
-  // Adiciona custo extra para entrevistas mais longas
-  if (durationMinutes > 30) {
-    return baseCost * 2;
-  }
-  
-  return baseCost;
-}
+import { SYSTEM_ACCOUNTS, getBalance } from "./ledger";
+import { creditsExpiry, getUpcomingExpirations, grantCredits } from "./lots";
+import { RefundError, refundTransaction } from "./refunds";
+import {
+  InsufficientCreditsError,
+  commitReservation,
+  getCreditsCost,
+  jobReservationKey,
+  reserveCredits,
+} from "./reservations";
 
 export async function creditsRoutes(app: FastifyInstance): Promise<void> {
   
@@ -38,13 +32,16 @@ export async function creditsRoutes(app: FastifyInstance): Promise<void> {
       const paramsSchema = z.object({ userId: z.string().uuid() });
       const { userId } = paramsSchema.parse(request.params);
       
+      if (!canAccessUser(request, userId)) {
+        return reply.code(403).send({ message: "Acesso negado." });
+      }
+      
       const user = await prisma.user.findUnique({
         where: { id: userId },
         select: { 
           id: true, 
           fullName: true, 
           email: true, 
-          credits: true,
           createdAt: true
         },
       });
@@ -57,7 +54,8 @@ export async function creditsRoutes(app: FastifyInstance): Promise<void> {
         userId: user.id,
         fullName: user.fullName,
         email: user.email,
-        credits: user.credits,
+        credits: await getBalance(user.id),
+        expirations: await getUpcomingExpirations(user.id),
         memberSince: user.createdAt
       };
     },
@@ -75,6 +73,7 @@ export async function creditsRoutes(app: FastifyInstance): Promise<void> {
           description: true,
           credits: true,
           price: true,
+          validityDays: true,
         },
       });
       
@@ -84,6 +83,7 @@ export async function creditsRoutes(app: FastifyInstance): Promise<void> {
 
   // POST /credits/packages - Criar novo pacote de créditos (admin)
   app.post<{ Body: unknown }>("/packages", {
+    preHandler: requireRole("ADMIN"),
     schema: {
       body: {
         type: "object",
@@ -93,6 +93,7 @@ export async function creditsRoutes(app: FastifyInstance): Promise<void> {
           description: { type: "string" },
           credits: { type: "integer", minimum: 1 },
           price: { type: "number", minimum: 0 },
+          validityDays: { type: ["integer", "null"], minimum: 1 },
         },
       },
     },
@@ -102,9 +103,10 @@ export async function creditsRoutes(app: FastifyInstance): Promise<void> {
         description: z.string().optional(),
         credits: z.number().int().min(1),
         price: z.number().min(0),
+        validityDays: z.number().int().min(1).nullable().optional(),
       });
       
-      const { name, description, credits, price } = bodySchema.parse(request.body);
+      const { name, description, credits, price, validityDays } = bodySchema.parse(request.body);
       
       const creditPackage = await prisma.creditPackage.create({
         data: {
@@ -112,6 +114,7 @@ export async function creditsRoutes(app: FastifyInstance): Promise<void> {
           description: description || null,
           credits,
           price: new Prisma.Decimal(price),
+          validityDays: validityDays ?? null,
         },
       });
       
@@ -119,6 +122,101 @@ export async function creditsRoutes(app: FastifyInstance): Promise<void> {
     },
   });
 
+  // PATCH /credits/packages/:id - Atualizar pacote de créditos (admin)
+  app.patch<{ Params: { id: string }; Body: unknown }>("/packages/:id", {
+    preHandler: requireRole("ADMIN"),
+    schema: {
+      params: {
+        type: "object",
+        required: ["id"],
+        properties: {
+          id: { type: "string", format: "uuid" },
+        },
+      },
+      body: {
+        type: "object",
+        properties: {
+          name: { type: "string", minLength: 1 },
+          description: { type: "string" },
+          credits: { type: "integer", minimum: 1 },
+          price: { type: "number", minimum: 0 },
+          validityDays: { type: ["integer", "null"], minimum: 1 },
+          isActive: { type: "boolean" },
+        },
+        additionalProperties: false,
+      },
+    },
+    handler: async (request, reply) => {
+      const paramsSchema = z.object({ id: z.string().uuid() });
+      const bodySchema = z
+        .object({
+          name: z.string().min(1).optional(),
+          description: z.string().optional(),
+          credits: z.number().int().min(1).optional(),
+          price: z.number().min(0).optional(),
+          validityDays: z.number().int().min(1).nullable().optional(),
+          isActive: z.boolean().optional(),
+        })
+        .strict();
+      
+      const { id } = paramsSchema.parse(request.params);
+      const { name, description, credits, price, validityDays, isActive } = bodySchema.parse(request.body ?? {});
+      
+      const data: Prisma.CreditPackageUpdateInput = {};
+      if (name !== undefined) data.name = name;
+      if (description !== undefined) data.description = description;
+      if (credits !== undefined) data.credits = credits;
+      if (price !== undefined) data.price = new Prisma.Decimal(price);
+      if (validityDays !== undefined) data.validityDays = validityDays;
+      if (isActive !== undefined) data.isActive = isActive;
+      
+      if (Object.keys(data).length === 0) {
+        return reply.code(400).send({ message: "Nada para atualizar." });
+      }
+      
+      try {
+        const creditPackage = await prisma.creditPackage.update({ where: { id }, data });
+        return creditPackage;
+      } catch (error: unknown) {
+        if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2025") {
+          return reply.code(404).send({ message: "Pacote de créditos não encontrado." });
+        }
+        console.error("Erro ao atualizar pacote de créditos:", error);
+        return reply.code(500).send({ message: "Erro interno ao atualizar pacote de créditos." });
+      }
+    },
+  });
+
+  // DELETE /credits/packages/:id - Desativar pacote de créditos (admin)
+  // O pacote é apenas desativado para preservar o histórico de transações
+  app.delete<{ Params: { id: string } }>("/packages/:id", {
+    preHandler: requireRole("ADMIN"),
+    schema: {
+      params: {
+        type: "object",
+        required: ["id"],
+        properties: {
+          id: { type: "string", format: "uuid" },
+        },
+      },
+    },
+    handler: async (request, reply) => {
+      const paramsSchema = z.object({ id: z.string().uuid() });
+      const { id } = paramsSchema.parse(request.params);
+      
+      try {
+        await prisma.creditPackage.update({ where: { id }, data: { isActive: false } });
+        return reply.code(204).send();
+      } catch (error: unknown) {
+        if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2025") {
+          return reply.code(404).send({ message: "Pacote de créditos não encontrado." });
+        }
+        console.error("Erro ao desativar pacote de créditos:", error);
+        return reply.code(500).send({ message: "Erro interno ao desativar pacote de créditos." });
+      }
+    },
+  });
+
   // POST /credits/calculate-cost - Calcular custo de uma entrevista
   app.post<{ Body: unknown }>("/calculate-cost", {
     schema: {
@@ -150,12 +248,13 @@ export async function creditsRoutes(app: FastifyInstance): Promise<void> {
 
   // POST /credits/consume - Consumir créditos para uma entrevista
   app.post<{ Body: unknown }>("/consume", {
+    preHandler: idempotencyKey,
+    onSend: storeIdempotentResponse,
     schema: {
       body: {
         type: "object",
-        required: ["userId", "jobId", "interviewType", "durationMinutes"],
+        required: ["jobId", "interviewType", "durationMinutes"],
         properties: {
-          userId: { type: "string", format: "uuid" },
           jobId: { type: "string", format: "uuid" },
           interviewType: { type: "string", enum: ["TEXT", "VOICE", "AVATAR"] },
           durationMinutes: { type: "integer", minimum: 1 },
@@ -164,65 +263,57 @@ export async function creditsRoutes(app: FastifyInstance): Promise<void> {
     },
     handler: async (request, reply) => {
       const bodySchema = z.object({
-        userId: z.string().uuid(),
         jobId: z.string().uuid(),
         interviewType: z.enum(["TEXT", "VOICE", "AVATAR"]),
         durationMinutes: z.number().int().min(1),
       });
       
-      const { userId, jobId, interviewType, durationMinutes } = bodySchema.parse(request.body);
+      const { jobId, interviewType, durationMinutes } = bodySchema.parse(request.body);
+      const userId = request.user.id;
       const creditsCost = getCreditsCost(interviewType, durationMinutes);
       
+      const job = await prisma.job.findFirst({
+        where: { id: jobId, userId, deletedAt: null },
+        select: { id: true, archivedAt: true },
+      });
+      
+      if (!job) {
+        return reply.code(404).send({ message: "Vaga não encontrada." });
+      }
+
+      if (job.archivedAt) {
+        return reply.code(409).send({ message: "Vaga arquivada. Restaure-a para iniciar entrevistas." });
+      }
+      
       try {
-        // Verificar se o usuário tem créditos suficientes
-        const user = await prisma.user.findUnique({
-          where: { id: userId },
-          select: { credits: true },
-        });
-        
-        if (!user) {
-          return reply.code(404).send({ message: "Usuário não encontrado." });
-        }
-        
-        if (user.credits < creditsCost) {
-          return reply.code(400).send({
-            message: "Créditos insuficientes.",
-            required: creditsCost,
-            available: user.credits,
-          });
-        }
-        
-        // Executar transação para consumir créditos
+        // Reserva e confirma na mesma transação; a mesma vaga nunca é cobrada duas vezes
+        const key = jobReservationKey(jobId);
         const result = await prisma.$transaction(async (tx) => {
-          // Atualizar saldo de créditos do usuário
-          const updatedUser = await tx.user.update({
-            where: { id: userId },
-            data: { credits: { decrement: creditsCost } },
-            select: { credits: true },
-          });
-          
-          // Criar transação de consumo
-          const transaction = await tx.creditTransaction.create({
-            data: {
-              type: "CONSUMPTION",
-              status: "COMPLETED",
-              amount: -creditsCost, // Negativo para consumo
-              userId,
-              jobId,
-            },
-          });
-          
-          return { updatedUser, transaction };
+          const reservation = await reserveCredits({ key, userId, amount: creditsCost, jobId }, tx);
+          await commitReservation(key, tx);
+          return reservation;
         });
         
         return {
-          message: "Créditos consumidos com sucesso.",
+          message: result.created
+            ? "Créditos consumidos com sucesso."
+            : "Os créditos desta entrevista já haviam sido consumidos.",
           transactionId: result.transaction.id,
-          creditsUsed: creditsCost,
-          remainingCredits: result.updatedUser.credits,
+          creditsUsed: -result.transaction.amount,
+          remainingCredits: result.remainingCredits,
         };
         
       } catch (error: unknown) {
+        if (error instanceof InsufficientCreditsError) {
+          return reply.code(400).send({
+            message: error.message,
+            required: error.required,
+            available: error.available,
+          });
+        }
+        if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
+          return reply.code(409).send({ message: "Consumo já em processamento para esta entrevista." });
+        }
         console.error("Erro ao consumir créditos:", error);
         return reply.code(500).send({
           message: "Erro interno ao consumir créditos.",
@@ -246,21 +337,25 @@ export async function creditsRoutes(app: FastifyInstance): Promise<void> {
         properties: {
           page: { type: "integer", minimum: 1 },
           perPage: { type: "integer", minimum: 1, maximum: 100 },
-          type: { type: "string", enum: ["PURCHASE", "CONSUMPTION", "REFUND", "BONUS"] },
+          type: { type: "string", enum: ["PURCHASE", "CONSUMPTION", "REFUND", "BONUS", "EXPIRATION"] },
         },
       },
     },
-    handler: async (request) => {
+    handler: async (request, reply) => {
       const paramsSchema = z.object({ userId: z.string().uuid() });
       const querySchema = z.object({
         page: z.coerce.number().int().min(1).default(1),
         perPage: z.coerce.number().int().min(1).max(100).default(20),
-        type: z.enum(["PURCHASE", "CONSUMPTION", "REFUND", "BONUS"]).optional(),
+        type: z.enum(["PURCHASE", "CONSUMPTION", "REFUND", "BONUS", "EXPIRATION"]).optional(),
       });
       
       const { userId } = paramsSchema.parse(request.params);
       const { page, perPage, type } = querySchema.parse(request.query);
       
+      if (!canAccessUser(request, userId)) {
+        return reply.code(403).send({ message: "Acesso negado." });
+      }
+      
       const where = {
         userId,
         ...(type && { type }),
@@ -279,6 +374,8 @@ export async function creditsRoutes(app: FastifyInstance): Promise<void> {
             status: true,
             amount: true,
             price: true,
+            refundOfId: true,
+            refundedAmount: true,
             createdAt: true,
             package: {
               select: { name: true, credits: true },
@@ -299,8 +396,61 @@ export async function creditsRoutes(app: FastifyInstance): Promise<void> {
     },
   });
 
+  // POST /credits/transactions/:id/refund - Estornar consumo de créditos, total ou parcial (admin)
+  app.post<{ Params: { id: string }; Body: unknown }>("/transactions/:id/refund", {
+    preHandler: requireRole("ADMIN"),
+    schema: {
+      params: {
+        type: "object",
+        required: ["id"],
+        properties: {
+          id: { type: "string", format: "uuid" },
+        },
+      },
+      body: {
+        type: "object",
+        required: ["reason"],
+        properties: {
+          credits: { type: "integer", minimum: 1 },
+          reason: { type: "string", minLength: 1 },
+        },
+      },
+    },
+    handler: async (request, reply) => {
+      const paramsSchema = z.object({ id: z.string().uuid() });
+      const bodySchema = z.object({
+        credits: z.number().int().min(1).optional(),
+        reason: z.string().min(1),
+      });
+      
+      const { id } = paramsSchema.parse(request.params);
+      const { credits, reason } = bodySchema.parse(request.body);
+      
+      try {
+        const result = await refundTransaction(id, {
+          type: "CONSUMPTION",
+          credits,
+          reason,
+          refundedBy: request.user.id,
+        });
+        
+        return reply.code(201).send(result);
+      } catch (error: unknown) {
+        if (error instanceof RefundError) {
+          return reply.code(error.statusCode).send({ message: error.message });
+        }
+        console.error("Erro ao estornar transação:", error);
+        return reply.code(500).send({
+          message: "Erro interno ao estornar transação.",
+        });
+      }
+    },
+  });
+
   // POST /credits/:userId/add-bonus - Adicionar créditos bônus (admin)
   app.post<{ Params: { userId: string }; Body: unknown }>("/:userId/add-bonus", {
+    preHandler: [requireRole("ADMIN"), idempotencyKey],
+    onSend: storeIdempotentResponse,
     schema: {
       params: {
         type: "object",
@@ -315,6 +465,7 @@ export async function creditsRoutes(app: FastifyInstance): Promise<void> {
         properties: {
           credits: { type: "integer", minimum: 1 },
           reason: { type: "string", minLength: 1 },
+          expiresInDays: { type: "integer", minimum: 1 },
         },
       },
     },
@@ -323,20 +474,25 @@ export async function creditsRoutes(app: FastifyInstance): Promise<void> {
       const bodySchema = z.object({
         credits: z.number().int().min(1),
         reason: z.string().min(1),
+        expiresInDays: z.number().int().min(1).optional(),
       });
       
       const { userId } = paramsSchema.parse(request.params);
-      const { credits, reason } = bodySchema.parse(request.body);
+      const { credits, reason, expiresInDays } = bodySchema.parse(request.body);
+      const expiresAt = creditsExpiry(expiresInDays);
       
       try {
+        // Verificar se o usuário existe
+        const user = await prisma.user.findUnique({
+          where: { id: userId },
+          select: { id: true },
+        });
+        
+        if (!user) {
+          return reply.code(404).send({ message: "Usuário não encontrado." });
+        }
+        
         const result = await prisma.$transaction(async (tx) => {
-          // Atualizar saldo de créditos do usuário
-          const updatedUser = await tx.user.update({
-            where: { id: userId },
-            data: { credits: { increment: credits } },
-            select: { credits: true },
-          });
-          
           // Criar transação de bônus
           const transaction = await tx.creditTransaction.create({
             data: {
@@ -344,17 +500,21 @@ export async function creditsRoutes(app: FastifyInstance): Promise<void> {
               status: "COMPLETED",
               amount: credits,
               userId,
-              metadata: { reason },
+              metadata: { reason, ...(expiresAt && { expiresAt: expiresAt.toISOString() }) },
             },
           });
           
-          return { updatedUser, transaction };
+          // Atualizar saldo de créditos do usuário
+          const newBalance = await grantCredits(tx, userId, credits, transaction.id, SYSTEM_ACCOUNTS.BONUS, expiresAt);
+          
+          return { updatedUser: { credits: newBalance }, transaction };
         });
         
         return reply.code(201).send({
           message: "Créditos bônus adicionados com sucesso.",
           transactionId: result.transaction.id,
           creditsAdded: credits,
+          expiresAt,
           newBalance: result.updatedUser.credits,
         });
         
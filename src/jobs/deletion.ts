@@ -0,0 +1,60 @@
+import { Prisma } from "../../generated/prisma";
+import { transitionSession } from "../ai/lifecycle";
+import { inTransaction, prisma } from "../lib/prisma";
+
+export type JobDeletionResult = "deleted" | "soft_deleted" | "in_progress";
+
+// Cancela os agendamentos e as entrevistas da vaga que ainda não começaram
+export async function cancelScheduledSessions(
+    tx: Prisma.TransactionClient,
+    jobId: string,
+    reason: string,
+): Promise<number> {
+    await tx.schedule.updateMany({
+        where: { jobId, status: "SCHEDULED" },
+        data: { status: "CANCELLED", cancelledAt: new Date(), sequence: { increment: 1 } },
+    });
+    const sessions = await tx.interviewSession.findMany({
+        where: { jobId, status: "SCHEDULED" },
+        select: { id: true },
+    });
+    let cancelled = 0;
+    for (const session of sessions) {
+        if (await transitionSession(session.id, "CANCELLED", { endedAt: new Date() }, tx, reason)) cancelled++;
+    }
+    return cancelled;
+}
+
+export async function hasInterviewInProgress(jobId: string, client: Prisma.TransactionClient = prisma): Promise<boolean> {
+    const count = await client.interviewSession.count({ where: { jobId, status: "IN_PROGRESS" } });
+    return count > 0;
+}
+
+// Política de exclusão de vagas:
+// - vagas com entrevista em andamento não são excluídas;
+// - os agendamentos da vaga são removidos e as entrevistas não iniciadas, canceladas;
+// - vagas com entrevistas ou transações de créditos ficam gravadas com deletedAt, para que
+//   o histórico financeiro e as transcrições continuem apontando para elas;
+// - as demais são apagadas de vez, junto com as notas por competência.
+export async function deleteJob(jobId: string, client: Prisma.TransactionClient = prisma): Promise<JobDeletionResult> {
+    return inTransaction(client, async (tx) => {
+        if (await hasInterviewInProgress(jobId, tx)) return "in_progress";
+
+        await cancelScheduledSessions(tx, jobId, "Vaga excluída");
+        await tx.schedule.deleteMany({ where: { jobId } });
+        await tx.scheduleSeries.deleteMany({ where: { jobId } });
+
+        const [sessions, transactions] = await Promise.all([
+            tx.interviewSession.count({ where: { jobId } }),
+            tx.creditTransaction.count({ where: { jobId } }),
+        ]);
+
+        if (sessions > 0 || transactions > 0) {
+            await tx.job.update({ where: { id: jobId }, data: { deletedAt: new Date() } });
+            return "soft_deleted";
+        }
+
+        await tx.job.delete({ where: { id: jobId } });
+        return "deleted";
+    });
+}
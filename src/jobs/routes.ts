@@ -1,19 +1,41 @@
 import { FastifyInstance } from "fastify";
 import { z } from "zod";
+import { Prisma } from "../../generated/prisma";
 import { prisma } from "../lib/prisma";
+import { competencyScoreSchema, duplicateCompetencies, saveJobFeedback } from "../ai/feedback";
+import { InvalidCursorError, cursorOrderBy, cursorWhere, decodeCursor, toCursorPage } from "../lib/pagination";
+import { cancelScheduledSessions, deleteJob, hasInterviewInProgress } from "./deletion";
+
+const JOB_SORT_FIELDS = ["createdAt", "updatedAt", "title", "durationMinutes", "feedbackScore"] as const;
+
+const idParamsSchema = {
+    type: "object",
+    required: ["id"],
+    properties: {
+        id: { type: "string", format: "uuid" },
+    },
+};
+
+// Vaga do usuário que não foi excluída (arquivadas incluídas)
+function findOwnedJob(id: string, userId: string) {
+    return prisma.job.findFirst({
+        where: { id, userId, deletedAt: null },
+        select: { id: true, archivedAt: true },
+    });
+}
 
 export async function jobsRoutes(app: FastifyInstance): Promise<void> {
     app.post<{ Body: unknown }>("/", {
         schema: {
             body: {
                 type: "object",
-                required: ["cargo", "descricao_cargo", "duracao_entrevista", "tipo_de_entrevista", "user_id"],
+                required: ["cargo", "descricao_cargo", "duracao_entrevista", "tipo_de_entrevista"],
                 properties: {
                     cargo: { type: "string", minLength: 1 },
                     descricao_cargo: { type: "string", minLength: 1 },
                     duracao_entrevista: { type: "integer", minimum: 1 },
                     tipo_de_entrevista: { type: "string", enum: ["TEXT", "VOICE", "AVATAR"] },
-                    user_id: { type: "string", minLength: 1 },
+                    rubrica_id: { type: "string", format: "uuid" },
                 },
             },
         },
@@ -23,48 +45,106 @@ export async function jobsRoutes(app: FastifyInstance): Promise<void> {
                 descricao_cargo: z.string().min(1),
                 duracao_entrevista: z.number().int().min(1),
                 tipo_de_entrevista: z.enum(["TEXT", "VOICE", "AVATAR"]),
-                user_id: z.string().uuid(),
+                rubrica_id: z.string().uuid().optional(),
             });
-            const { cargo, descricao_cargo, duracao_entrevista, tipo_de_entrevista, user_id } = bodySchema.parse(request.body);
+            const { cargo, descricao_cargo, duracao_entrevista, tipo_de_entrevista, rubrica_id } = bodySchema.parse(request.body);
+            if (rubrica_id) {
+                const rubric = await prisma.rubric.findFirst({
+                    where: { id: rubrica_id, userId: request.user.id },
+                    select: { id: true },
+                });
+                if (!rubric) {
+                    return reply.code(404).send({ message: "Roteiro não encontrado." });
+                }
+            }
             const job = await prisma.job.create({
                 data: {
                     title: cargo,
                     description: descricao_cargo,
                     durationMinutes: duracao_entrevista,
                     interviewType: tipo_de_entrevista,
-                    userId: user_id,
+                    userId: request.user.id,
+                    rubricId: rubrica_id ?? null,
                 },
             });
             return reply.code(201).send(job);
         },
     });
 
-    // Rota GET para listar Jobs (com filtro por user_id)
-    app.get("/", {
+    // Rota GET para listar os Jobs do usuário autenticado, paginada por cursor
+    // (arquivadas apenas com ?arquivadas=true)
+    app.get<{ Querystring: unknown }>("/", {
         schema: {
             querystring: {
                 type: "object",
                 properties: {
-                    user_id: { type: "string", format: "uuid" },
+                    cursor: { type: "string" },
+                    perPage: { type: "integer", minimum: 1, maximum: 100 },
+                    arquivadas: { type: "boolean" },
+                    from: { type: "string", format: "date-time" },
+                    to: { type: "string", format: "date-time" },
+                    interviewType: { type: "string", enum: ["TEXT", "VOICE", "AVATAR"] },
+                    hasFeedback: { type: "boolean" },
+                    minScore: { type: "integer", minimum: 0, maximum: 10 },
+                    maxScore: { type: "integer", minimum: 0, maximum: 10 },
+                    sort: { type: "string", enum: JOB_SORT_FIELDS },
+                    order: { type: "string", enum: ["asc", "desc"] },
                 },
             },
         },
-        handler: async (request) => {
+        handler: async (request, reply) => {
             const querySchema = z.object({
-                user_id: z.string().uuid().optional(),
+                cursor: z.string().optional(),
+                perPage: z.coerce.number().int().min(1).max(100).default(20),
+                arquivadas: z.boolean().default(false),
+                from: z.coerce.date().optional(),
+                to: z.coerce.date().optional(),
+                interviewType: z.enum(["TEXT", "VOICE", "AVATAR"]).optional(),
+                hasFeedback: z.boolean().optional(),
+                minScore: z.coerce.number().int().min(0).max(10).optional(),
+                maxScore: z.coerce.number().int().min(0).max(10).optional(),
+                sort: z.enum(JOB_SORT_FIELDS).default("createdAt"),
+                order: z.enum(["asc", "desc"]).default("desc"),
             });
-            const { user_id } = querySchema.parse(request.query);
+            const { cursor, perPage, arquivadas, from, to, interviewType, hasFeedback, minScore, maxScore, sort, order } =
+                querySchema.parse(request.query);
 
-            const where: any = {};
-            if (user_id) {
-                where.userId = user_id;
+            // Filtros por data referem-se à criação da vaga
+            const where: Prisma.JobWhereInput = {
+                userId: request.user.id,
+                deletedAt: null,
+                archivedAt: arquivadas ? { not: null } : null,
+            };
+            if (from || to) where.createdAt = { ...(from && { gte: from }), ...(to && { lte: to }) };
+            if (interviewType) where.interviewType = interviewType;
+            if (hasFeedback !== undefined) where.feedbackSummary = hasFeedback ? { not: null } : null;
+            if (minScore !== undefined || maxScore !== undefined) {
+                where.feedbackScore = {
+                    ...(minScore !== undefined && { gte: minScore }),
+                    ...(maxScore !== undefined && { lte: maxScore }),
+                };
             }
 
-            const jobs = await prisma.job.findMany({
-                where,
-                orderBy: { createdAt: "desc" },
-            });
-            return jobs;
+            const nullable = sort === "feedbackScore";
+            let after: Prisma.JobWhereInput | undefined;
+            if (cursor) {
+                try {
+                    after = cursorWhere(decodeCursor(cursor, sort), order, nullable);
+                } catch (error: unknown) {
+                    if (error instanceof InvalidCursorError) return reply.code(400).send({ message: error.message });
+                    throw error;
+                }
+            }
+
+            const [total, rows] = await Promise.all([
+                prisma.job.count({ where }),
+                prisma.job.findMany({
+                    where: after ? { AND: [where, after] } : where,
+                    orderBy: cursorOrderBy(sort, order, nullable),
+                    take: perPage + 1,
+                }),
+            ]);
+            return toCursorPage(rows, perPage, total, sort);
         },
     });
     
@@ -82,8 +162,9 @@ export async function jobsRoutes(app: FastifyInstance): Promise<void> {
         handler: async (request, reply) => {
             const paramsSchema = z.object({ id: z.string().uuid() });
             const { id } = paramsSchema.parse(request.params);
-            const job = await prisma.job.findUnique({
-                where: { id },
+            const job = await prisma.job.findFirst({
+                where: { id, userId: request.user.id, deletedAt: null },
+                include: { competencyScores: { orderBy: { competency: "asc" } } },
             });
             if (!job) {
                 return reply.code(404).send({ message: "Vaga não encontrada." });
@@ -92,29 +173,168 @@ export async function jobsRoutes(app: FastifyInstance): Promise<void> {
         },
     });
 
+    // Rota PATCH para editar uma vaga; campos da entrevista não mudam com uma entrevista em andamento
+    app.patch<{ Params: { id: string }; Body: unknown }>("/:id", {
+        schema: {
+            params: idParamsSchema,
+            body: {
+                type: "object",
+                properties: {
+                    cargo: { type: "string", minLength: 1 },
+                    descricao_cargo: { type: "string", minLength: 1 },
+                    duracao_entrevista: { type: "integer", minimum: 1 },
+                    tipo_de_entrevista: { type: "string", enum: ["TEXT", "VOICE", "AVATAR"] },
+                    rubrica_id: { type: ["string", "null"], format: "uuid" },
+                },
+                additionalProperties: false,
+            },
+        },
+        handler: async (request, reply) => {
+            const paramsSchema = z.object({ id: z.string().uuid() });
+            const bodySchema = z
+                .object({
+                    cargo: z.string().min(1).optional(),
+                    descricao_cargo: z.string().min(1).optional(),
+                    duracao_entrevista: z.number().int().min(1).optional(),
+                    tipo_de_entrevista: z.enum(["TEXT", "VOICE", "AVATAR"]).optional(),
+                    rubrica_id: z.string().uuid().nullable().optional(),
+                })
+                .strict();
+            const { id } = paramsSchema.parse(request.params);
+            const { cargo, descricao_cargo, duracao_entrevista, tipo_de_entrevista, rubrica_id } = bodySchema.parse(request.body ?? {});
+
+            const data: Prisma.JobUncheckedUpdateInput = {};
+            if (cargo !== undefined) data.title = cargo;
+            if (descricao_cargo !== undefined) data.description = descricao_cargo;
+            if (duracao_entrevista !== undefined) data.durationMinutes = duracao_entrevista;
+            if (tipo_de_entrevista !== undefined) data.interviewType = tipo_de_entrevista;
+            if (rubrica_id !== undefined) data.rubricId = rubrica_id;
+
+            if (Object.keys(data).length === 0) {
+                return reply.code(400).send({ message: "Nada para atualizar." });
+            }
+
+            const job = await findOwnedJob(id, request.user.id);
+            if (!job) {
+                return reply.code(404).send({ message: "Vaga não encontrada." });
+            }
+            if (job.archivedAt) {
+                return reply.code(409).send({ message: "Vaga arquivada. Restaure-a antes de editar." });
+            }
+            if (await hasInterviewInProgress(id)) {
+                return reply.code(409).send({ message: "Há uma entrevista em andamento para esta vaga." });
+            }
+
+            if (rubrica_id) {
+                const rubric = await prisma.rubric.findFirst({
+                    where: { id: rubrica_id, userId: request.user.id },
+                    select: { id: true },
+                });
+                if (!rubric) {
+                    return reply.code(404).send({ message: "Roteiro não encontrado." });
+                }
+            }
+
+            return prisma.job.update({ where: { id }, data });
+        },
+    });
+
+    // Rota POST para arquivar uma vaga; entrevistas ainda não iniciadas são canceladas
+    app.post<{ Params: { id: string } }>("/:id/archive", {
+        schema: { params: idParamsSchema },
+        handler: async (request, reply) => {
+            const paramsSchema = z.object({ id: z.string().uuid() });
+            const { id } = paramsSchema.parse(request.params);
+
+            const job = await findOwnedJob(id, request.user.id);
+            if (!job) {
+                return reply.code(404).send({ message: "Vaga não encontrada." });
+            }
+            if (job.archivedAt) {
+                return reply.code(409).send({ message: "A vaga já está arquivada." });
+            }
+
+            const archived = await prisma.$transaction(async (tx) => {
+                if (await hasInterviewInProgress(id, tx)) return null;
+                await cancelScheduledSessions(tx, id, "Vaga arquivada");
+                return tx.job.update({ where: { id }, data: { archivedAt: new Date() } });
+            });
+            if (!archived) {
+                return reply.code(409).send({ message: "Há uma entrevista em andamento para esta vaga." });
+            }
+            return archived;
+        },
+    });
+
+    // Rota POST para restaurar uma vaga arquivada
+    app.post<{ Params: { id: string } }>("/:id/restore", {
+        schema: { params: idParamsSchema },
+        handler: async (request, reply) => {
+            const paramsSchema = z.object({ id: z.string().uuid() });
+            const { id } = paramsSchema.parse(request.params);
+
+            const job = await findOwnedJob(id, request.user.id);
+            if (!job) {
+                return reply.code(404).send({ message: "Vaga não encontrada." });
+            }
+            if (!job.archivedAt) {
+                return reply.code(409).send({ message: "A vaga não está arquivada." });
+            }
+
+            return prisma.job.update({ where: { id }, data: { archivedAt: null } });
+        },
+    });
+
+    // Rota DELETE para excluir uma vaga (ver a política em ./deletion)
+    app.delete<{ Params: { id: string } }>("/:id", {
+        schema: { params: idParamsSchema },
+        handler: async (request, reply) => {
+            const paramsSchema = z.object({ id: z.string().uuid() });
+            const { id } = paramsSchema.parse(request.params);
+
+            const job = await findOwnedJob(id, request.user.id);
+            if (!job) {
+                return reply.code(404).send({ message: "Vaga não encontrada." });
+            }
+
+            const result = await deleteJob(id);
+            if (result === "in_progress") {
+                return reply.code(409).send({ message: "Há uma entrevista em andamento para esta vaga." });
+            }
+            return reply.code(204).send();
+        },
+    });
+
      app.patch<{ Params: { id: string }; Body: unknown }>("/:id/feedback", {
         handler: async (request, reply) => {
             const paramsSchema = z.object({ id: z.string().uuid() });
+            // Aceita listas ou o formato antigo (texto separado por ponto e vírgula)
+            const listSchema = z.union([
+                z.array(z.string().min(1)),
+                z.string().transform((value) => value.split(";").map((item) => item.trim()).filter(Boolean)),
+            ]);
             const bodySchema = z.object({
                 summary: z.string(),
-                strengths: z.string(),
-                weaknesses: z.string(),
+                strengths: listSchema,
+                weaknesses: listSchema,
                 score: z.number().int().min(0).max(10),
+                competencies: z.array(competencyScoreSchema).default([]),
             });
 
             try {
                 const { id } = paramsSchema.parse(request.params);
-                const { summary, strengths, weaknesses, score } = bodySchema.parse(request.body);
-
-                const updatedJob = await prisma.job.update({
-                    where: { id },
-                    data: {
-                        feedbackSummary: summary,
-                        feedbackStrengths: strengths,
-                        feedbackWeaknesses: weaknesses,
-                        feedbackScore: score,
-                    },
-                });
+                const feedback = bodySchema.parse(request.body);
+                const duplicated = duplicateCompetencies(feedback.competencies);
+                if (duplicated.length > 0) {
+                    return reply.code(400).send({ message: `Competências repetidas: ${duplicated.join(", ")}.` });
+                }
+
+                const job = await findOwnedJob(id, request.user.id);
+                if (!job) {
+                    return reply.code(404).send({ message: "Vaga não encontrada." });
+                }
+
+                const updatedJob = await prisma.$transaction((tx) => saveJobFeedback(id, feedback, tx));
 
                 return updatedJob;
             } catch (error) {
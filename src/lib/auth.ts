@@ -0,0 +1,98 @@
+import { FastifyInstance, FastifyReply, FastifyRequest } from "fastify";
+import fp from "fastify-plugin";
+import jwt from "jsonwebtoken";
+import { UserRole } from "../../generated/prisma";
+import { prisma } from "./prisma";
+
+export interface AuthUser {
+	id: string;
+	role: UserRole;
+	sessionId: string;
+}
+
+declare module "fastify" {
+	interface FastifyRequest {
+		user: AuthUser;
+	}
+}
+
+// Rotas acessíveis sem token (método + URL completa, sem barra final)
+const PUBLIC_ROUTES = new Set([
+	"POST /users",
+	"POST /auth/login",
+	"POST /auth/refresh",
+	"POST /auth/forgot-password",
+	"POST /auth/reset-password",
+	"POST /auth/verify-email",
+	// Chamado pelo gateway de pagamento, que não possui token de usuário
+	"POST /payments/webhook",
+	// Feed iCalendar lido pelos aplicativos de calendário; autenticado pelo token na URL
+	"GET /schedules/calendar/:token",
+]);
+
+export function getJwtSecret(): string {
+	const secret = process.env.JWT_SECRET;
+	if (!secret) {
+		throw new Error("JWT_SECRET não definido no .env");
+	}
+	return secret;
+}
+
+function isPublicRoute(request: FastifyRequest): boolean {
+	if (request.method === "OPTIONS") return true;
+	const url = request.routeOptions.url;
+	// Rotas inexistentes seguem para o 404 padrão do Fastify
+	if (!url) return true;
+	const normalized = url.length > 1 ? url.replace(/\/$/, "") : url;
+	return PUBLIC_ROUTES.has(`${request.method} ${normalized}`);
+}
+
+// Verifica se o usuário autenticado pode acessar dados do usuário informado
+export function canAccessUser(request: FastifyRequest, userId: string): boolean {
+	return request.user.id === userId || request.user.role === "ADMIN";
+}
+
+// preHandler que restringe a rota aos papéis informados
+export function requireRole(...roles: UserRole[]) {
+	return async (request: FastifyRequest, reply: FastifyReply): Promise<void> => {
+		if (!roles.includes(request.user.role)) {
+			return reply.code(403).send({ message: "Acesso negado." });
+		}
+	};
+}
+
+async function authPlugin(app: FastifyInstance): Promise<void> {
+	// Preenchido pelo hook abaixo em todas as rotas não públicas
+	app.decorateRequest("user", null as unknown as AuthUser);
+
+	app.addHook("onRequest", async (request, reply) => {
+		if (isPublicRoute(request)) return;
+
+		const auth = request.headers.authorization;
+		if (!auth?.startsWith("Bearer ")) {
+			return reply.code(401).send({ message: "Token ausente" });
+		}
+		const token = auth.slice("Bearer ".length);
+		try {
+			const payload = jwt.verify(token, getJwtSecret());
+			if (typeof payload !== "object" || !payload.sub || typeof payload.sid !== "string") {
+				return reply.code(401).send({ message: "Token inválido" });
+			}
+			const role = payload.role === "ADMIN" ? "ADMIN" : "CANDIDATE";
+			request.user = { id: String(payload.sub), role, sessionId: payload.sid };
+		} catch {
+			return reply.code(401).send({ message: "Token inválido" });
+		}
+
+		// Tokens de acesso de sessões encerradas (logout, troca de senha) deixam de valer
+		const session = await prisma.session.findUnique({
+			where: { id: request.user.sessionId },
+			select: { revokedAt: true, expiresAt: true },
+		});
+		if (!session || session.revokedAt || session.expiresAt <= new Date()) {
+			return reply.code(401).send({ message: "Sessão encerrada" });
+		}
+	});
+}
+
+export const auth = fp(authPlugin, { name: "auth" });
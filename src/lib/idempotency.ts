@@ -0,0 +1,99 @@
+import { createHash } from "node:crypto";
+import { FastifyReply, FastifyRequest } from "fastify";
+import { Prisma } from "../../generated/prisma";
+import { prisma } from "./prisma";
+
+// Chaves ficam guardadas por 24 horas; depois disso podem ser reutilizadas
+const KEY_TTL_HOURS = 24;
+const MAX_KEY_LENGTH = 255;
+
+// Registro de chave criado para a requisição em andamento
+const pendingKeys = new WeakMap<FastifyRequest, string>();
+
+// Identifica a requisição: mesma chave com rota ou conteúdo diferente é um conflito
+function fingerprint(request: FastifyRequest): string {
+	return createHash("sha256")
+		.update(JSON.stringify([request.method, request.routeOptions.url, request.params, request.body ?? null]))
+		.digest("hex");
+}
+
+// preHandler: com o cabeçalho Idempotency-Key, repetições devolvem a resposta original.
+// Sem o cabeçalho, a rota funciona normalmente.
+export async function idempotencyKey(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+	const header = request.headers["idempotency-key"];
+	if (header === undefined) return;
+
+	const key = Array.isArray(header) ? header[0] : header;
+	if (!key || key.length > MAX_KEY_LENGTH) {
+		return reply.code(400).send({ message: `Idempotency-Key deve ter entre 1 e ${MAX_KEY_LENGTH} caracteres.` });
+	}
+
+	const userId = request.user.id;
+	const requestHash = fingerprint(request);
+
+	try {
+		const record = await prisma.idempotencyKey.create({
+			data: { userId, key, route: `${request.method} ${request.routeOptions.url}`, requestHash },
+			select: { id: true },
+		});
+		pendingKeys.set(request, record.id);
+		return;
+	} catch (error: unknown) {
+		if (!(error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002")) throw error;
+	}
+
+	const existing = await prisma.idempotencyKey.findUnique({ where: { userId_key: { userId, key } } });
+	if (!existing) {
+		return reply.code(409).send({ message: "Requisição com esta Idempotency-Key ainda em processamento." });
+	}
+
+	if (existing.requestHash !== requestHash) {
+		return reply.code(422).send({ message: "Idempotency-Key já utilizada com outra requisição." });
+	}
+
+	if (existing.statusCode === null) {
+		return reply.code(409).send({ message: "Requisição com esta Idempotency-Key ainda em processamento." });
+	}
+
+	reply.header("Idempotent-Replayed", "true");
+	return reply.code(existing.statusCode).send(existing.response);
+}
+
+// onSend: guarda a resposta da primeira execução. Erros 5xx liberam a chave para nova tentativa.
+export async function storeIdempotentResponse(
+	request: FastifyRequest,
+	reply: FastifyReply,
+	payload: unknown,
+): Promise<unknown> {
+	const id = pendingKeys.get(request);
+	if (!id) return payload;
+	pendingKeys.delete(request);
+
+	if (reply.statusCode >= 500) {
+		await prisma.idempotencyKey.delete({ where: { id } });
+		return payload;
+	}
+
+	let response: Prisma.InputJsonValue | typeof Prisma.JsonNull = Prisma.JsonNull;
+	if (typeof payload === "string" && payload.length > 0) {
+		try {
+			response = JSON.parse(payload);
+		} catch {
+			response = payload;
+		}
+	}
+
+	await prisma.idempotencyKey.update({
+		where: { id },
+		data: { statusCode: reply.statusCode, response },
+	});
+	return payload;
+}
+
+// Remove chaves vencidas (executado pelo agendador)
+export async function purgeExpiredIdempotencyKeys(): Promise<number> {
+	const { count } = await prisma.idempotencyKey.deleteMany({
+		where: { createdAt: { lt: new Date(Date.now() - KEY_TTL_HOURS * 60 * 60 * 1000) } },
+	});
+	return count;
+}
@@ -0,0 +1,88 @@
+import { mkdir, writeFile } from "node:fs/promises";
+import path from "node:path";
+import nodemailer, { Transporter } from "nodemailer";
+
+export interface MailMessage {
+	to: string;
+	subject: string;
+	text: string;
+	html?: string;
+}
+
+export interface Mailer {
+	send(message: MailMessage): Promise<void>;
+}
+
+function getMailFrom(): string {
+	return process.env.MAIL_FROM ?? "Entrevista <no-reply@entrevista.local>";
+}
+
+export class SmtpMailer implements Mailer {
+	private readonly transporter: Transporter;
+
+	constructor(url: string) {
+		this.transporter = nodemailer.createTransport(url);
+	}
+
+	async send(message: MailMessage): Promise<void> {
+		await this.transporter.sendMail({ from: getMailFrom(), ...message });
+	}
+}
+
+// Guarda as mensagens em memória; útil para testes inspecionarem o que foi enviado
+export class MemoryMailer implements Mailer {
+	readonly messages: MailMessage[] = [];
+
+	async send(message: MailMessage): Promise<void> {
+		this.messages.push(message);
+	}
+
+	lastTo(to: string): MailMessage | undefined {
+		return [...this.messages].reverse().find((m) => m.to === to);
+	}
+
+	clear(): void {
+		this.messages.length = 0;
+	}
+}
+
+// Grava cada mensagem como um arquivo JSON no diretório informado
+export class FileMailer implements Mailer {
+	constructor(private readonly dir: string) {}
+
+	async send(message: MailMessage): Promise<void> {
+		await mkdir(this.dir, { recursive: true });
+		const safeTo = message.to.replace(/[^a-zA-Z0-9@._-]/g, "_");
+		const file = path.join(this.dir, `${Date.now()}-${safeTo}.json`);
+		await writeFile(file, JSON.stringify({ from: getMailFrom(), ...message }, null, 2), "utf8");
+	}
+}
+
+function createMailer(): Mailer {
+	const driver = process.env.MAIL_DRIVER ?? (process.env.SMTP_URL ? "smtp" : "file");
+	switch (driver) {
+		case "smtp": {
+			const url = process.env.SMTP_URL;
+			if (!url) throw new Error("SMTP_URL não definido no .env");
+			return new SmtpMailer(url);
+		}
+		case "memory":
+			return new MemoryMailer();
+		case "file":
+			return new FileMailer(process.env.MAIL_DIR ?? path.resolve("tmp", "mail"));
+		default:
+			throw new Error(`MAIL_DRIVER inválido: ${driver}`);
+	}
+}
+
+let currentMailer: Mailer | undefined;
+
+export function getMailer(): Mailer {
+	currentMailer ??= createMailer();
+	return currentMailer;
+}
+
+// Permite substituir o mailer (ex.: por um MemoryMailer nos testes)
+export function setMailer(mailer: Mailer): void {
+	currentMailer = mailer;
+}
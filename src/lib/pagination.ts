@@ -0,0 +1,88 @@
+// Paginação por cursor (keyset): a próxima página começa depois do último item devolvido,
+// então inserções e exclusões entre as requisições não repetem nem pulam itens.
+
+export type SortOrder = "asc" | "desc";
+type CursorValue = string | number | Date | null;
+
+export interface CursorPage<T> {
+	perPage: number;
+	total: number;
+	nextCursor: string | null;
+	items: T[];
+}
+
+interface CursorPayload {
+	f: string; // campo de ordenação
+	v: string | number | null; // valor do campo no último item
+	d?: true; // o valor é uma data em ISO
+	id: string;
+}
+
+export interface Cursor {
+	field: string;
+	value: CursorValue;
+	id: string;
+}
+
+export class InvalidCursorError extends Error {
+	constructor() {
+		super("Cursor inválido.");
+		this.name = "InvalidCursorError";
+	}
+}
+
+export function encodeCursor(field: string, value: CursorValue, id: string): string {
+	const payload: CursorPayload =
+		value instanceof Date ? { f: field, v: value.toISOString(), d: true, id } : { f: field, v: value, id };
+	return Buffer.from(JSON.stringify(payload)).toString("base64url");
+}
+
+// O cursor só vale para a ordenação com que foi gerado
+export function decodeCursor(cursor: string, field: string): Cursor {
+	let payload: CursorPayload;
+	try {
+		payload = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+	} catch {
+		throw new InvalidCursorError();
+	}
+	if (!payload || payload.f !== field || typeof payload.id !== "string") throw new InvalidCursorError();
+
+	if (payload.d) {
+		const date = new Date(String(payload.v));
+		if (Number.isNaN(date.getTime())) throw new InvalidCursorError();
+		return { field, value: date, id: payload.id };
+	}
+	return { field, value: payload.v, id: payload.id };
+}
+
+// orderBy estável: o id desempata itens com o mesmo valor. Campos opcionais ficam com os nulos no fim.
+export function cursorOrderBy(field: string, order: SortOrder, nullable = false) {
+	return [{ [field]: nullable ? { sort: order, nulls: "last" as const } : order }, { id: order }];
+}
+
+// Condição "depois do cursor" na ordenação de cursorOrderBy
+export function cursorWhere(cursor: Cursor, order: SortOrder, nullable = false): Record<string, unknown> {
+	const op = order === "asc" ? "gt" : "lt";
+	const { field, value, id } = cursor;
+
+	// Já na faixa dos nulos, que vem por último
+	if (value === null) return { [field]: null, id: { [op]: id } };
+
+	const after: Record<string, unknown>[] = [{ [field]: { [op]: value } }, { [field]: value, id: { [op]: id } }];
+	if (nullable) after.push({ [field]: null });
+	return { OR: after };
+}
+
+// Busca perPage + 1 itens para saber se há próxima página
+export function toCursorPage<T extends { id: string }>(
+	rows: T[],
+	perPage: number,
+	total: number,
+	field: keyof T & string,
+): CursorPage<T> {
+	const items = rows.slice(0, perPage);
+	const last = items[items.length - 1];
+	const nextCursor =
+		rows.length > perPage && last ? encodeCursor(field, last[field] as CursorValue, last.id) : null;
+	return { perPage, total, nextCursor, items };
+}
@@ -1,4 +1,4 @@
-import { PrismaClient } from "../../generated/prisma";
+import { Prisma, PrismaClient } from "../../generated/prisma";
 
 declare global {
 	// eslint-disable-next-line no-var
@@ -11,4 +11,10 @@ if (process.env.NODE_ENV !== "production") {
 	globalThis.__prismaClient = prisma;
 }
 
-
+// Executa fn em uma transação; se o cliente já for uma transação, reaproveita-a
+export function inTransaction<T>(
+	client: Prisma.TransactionClient,
+	fn: (tx: Prisma.TransactionClient) => Promise<T>,
+): Promise<T> {
+	return client === prisma ? prisma.$transaction(fn) : fn(client);
+}
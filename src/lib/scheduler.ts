@@ -0,0 +1,34 @@
+// Tarefas periódicas executadas em processo (expiração de entrevistas, pagamentos etc.)
+
+type Task = () => Promise<unknown>;
+
+const timers = new Map<string, NodeJS.Timeout>();
+const running = new Set<string>();
+
+async function runTask(name: string, task: Task): Promise<void> {
+	// Evita sobreposição quando uma execução demora mais que o intervalo
+	if (running.has(name)) return;
+	running.add(name);
+	try {
+		await task();
+	} catch (err: unknown) {
+		console.error(`Erro na tarefa agendada "${name}":`, err);
+	} finally {
+		running.delete(name);
+	}
+}
+
+export function scheduleTask(name: string, intervalMs: number, task: Task): void {
+	if (timers.has(name)) {
+		throw new Error(`Tarefa agendada "${name}" já registrada`);
+	}
+	const timer = setInterval(() => void runTask(name, task), intervalMs);
+	timer.unref();
+	timers.set(name, timer);
+	void runTask(name, task);
+}
+
+export function stopScheduledTasks(): void {
+	for (const timer of timers.values()) clearInterval(timer);
+	timers.clear();
+}
@@ -0,0 +1,61 @@
+// Datas são gravadas em UTC; o fuso IANA do usuário (ex.: "America/Manaus") só entra
+// na leitura de horários locais e na apresentação.
+
+export const DEFAULT_TIME_ZONE = "America/Sao_Paulo";
+
+// Data/hora com fuso explícito: "Z" ou "+hh:mm"/"-hh:mm" no fim
+const EXPLICIT_OFFSET = /(Z|[+-]\d{2}:?\d{2})$/i;
+const LOCAL_DATE_TIME = /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2}))?)?$/;
+
+export function isValidTimeZone(timeZone: string): boolean {
+	try {
+		new Intl.DateTimeFormat("en-US", { timeZone });
+		return true;
+	} catch {
+		return false;
+	}
+}
+
+// Diferença, em minutos, entre o horário local do fuso e UTC naquele instante (ex.: -180)
+export function timeZoneOffsetMinutes(date: Date, timeZone: string): number {
+	const name = new Intl.DateTimeFormat("en-US", { timeZone, timeZoneName: "longOffset" })
+		.formatToParts(date)
+		.find((part) => part.type === "timeZoneName")?.value;
+	const match = name?.match(/GMT([+-])(\d{2}):(\d{2})/);
+	if (!match) return 0; // "GMT" puro
+	const minutes = Number(match[2]) * 60 + Number(match[3]);
+	return match[1] === "-" ? -minutes : minutes;
+}
+
+function formatOffset(minutes: number): string {
+	const sign = minutes < 0 ? "-" : "+";
+	const abs = Math.abs(minutes);
+	return `${sign}${String(Math.floor(abs / 60)).padStart(2, "0")}:${String(abs % 60).padStart(2, "0")}`;
+}
+
+// ISO 8601 no horário local, com o deslocamento explícito (ex.: "2025-11-11T19:00:00-03:00")
+export function formatInTimeZone(date: Date, timeZone: string): string {
+	const offset = timeZoneOffsetMinutes(date, timeZone);
+	const local = new Date(date.getTime() + offset * 60 * 1000);
+	return `${local.toISOString().slice(0, 19)}${formatOffset(offset)}`;
+}
+
+// Converte data/hora para o instante correspondente. Valores com deslocamento explícito são
+// respeitados; sem ele, são lidos como horário local do fuso. Retorna null se o valor for inválido.
+export function parseDateTimeInTimeZone(value: string, timeZone: string): Date | null {
+	if (EXPLICIT_OFFSET.test(value)) {
+		const date = new Date(value);
+		return Number.isNaN(date.getTime()) ? null : date;
+	}
+
+	const match = value.match(LOCAL_DATE_TIME);
+	if (!match) return null;
+	const [, year, month, day, hour = "0", minute = "0", second = "0"] = match;
+	const wallClock = Date.UTC(Number(year), Number(month) - 1, Number(day), Number(hour), Number(minute), Number(second));
+	if (Number.isNaN(wallClock)) return null;
+
+	// O deslocamento depende do próprio instante (horário de verão); a segunda passada corrige a transição
+	let instant = wallClock - timeZoneOffsetMinutes(new Date(wallClock), timeZone) * 60 * 1000;
+	instant = wallClock - timeZoneOffsetMinutes(new Date(instant), timeZone) * 60 * 1000;
+	return new Date(instant);
+}
@@ -0,0 +1,83 @@
+// Código de barras e linha digitável de boletos bancários (padrão FEBRABAN)
+
+export interface BoletoInput {
+  bankCode: string; // 3 dígitos
+  amount: number; // Em reais
+  dueDate: Date;
+  freeField: string; // Campo livre de 25 dígitos, definido pelo banco
+}
+
+export interface Boleto {
+  barcode: string; // 44 dígitos
+  digitableLine: string;
+  dueDate: string; // AAAA-MM-DD
+}
+
+const BASE_DATE = Date.UTC(1997, 9, 7);
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Dias desde 07/10/1997. O fator chegou a 9999 em 21/02/2025 e recomeçou em 1000.
+export function dueDateFactor(dueDate: Date): string {
+  const due = Date.UTC(dueDate.getUTCFullYear(), dueDate.getUTCMonth(), dueDate.getUTCDate());
+  const days = Math.round((due - BASE_DATE) / DAY_MS);
+  const factor = days >= 1000 ? ((days - 1000) % 9000) + 1000 : days;
+  return String(factor).padStart(4, "0");
+}
+
+// Módulo 10: pesos 2 e 1 alternados da direita para a esquerda, somando os dígitos dos produtos
+function mod10(digits: string): string {
+  let sum = 0;
+  let weight = 2;
+  for (let i = digits.length - 1; i >= 0; i--) {
+    const product = Number(digits[i]) * weight;
+    sum += product > 9 ? product - 9 : product;
+    weight = weight === 2 ? 1 : 2;
+  }
+  return String((10 - (sum % 10)) % 10);
+}
+
+// Módulo 11 do dígito geral: pesos de 2 a 9 da direita para a esquerda; 0, 10 e 11 viram 1
+function mod11(digits: string): string {
+  let sum = 0;
+  let weight = 2;
+  for (let i = digits.length - 1; i >= 0; i--) {
+    sum += Number(digits[i]) * weight;
+    weight = weight === 9 ? 2 : weight + 1;
+  }
+  const dv = 11 - (sum % 11);
+  return dv === 0 || dv >= 10 ? "1" : String(dv);
+}
+
+export function buildBoleto(input: BoletoInput): Boleto {
+  if (!/^\d{3}$/.test(input.bankCode) || !/^\d{25}$/.test(input.freeField)) {
+    throw new Error("Código do banco ou campo livre inválido para o boleto.");
+  }
+
+  const currency = "9"; // Real
+  const factor = dueDateFactor(input.dueDate);
+  const amount = String(Math.round(input.amount * 100)).padStart(10, "0");
+  const free = input.freeField;
+
+  const withoutDv = `${input.bankCode}${currency}${factor}${amount}${free}`;
+  const dv = mod11(withoutDv);
+  const barcode = `${input.bankCode}${currency}${dv}${factor}${amount}${free}`;
+
+  const field1 = `${input.bankCode}${currency}${free.slice(0, 5)}`;
+  const field2 = free.slice(5, 15);
+  const field3 = free.slice(15, 25);
+  const digitableLine = [
+    `${field1.slice(0, 5)}.${field1.slice(5)}${mod10(field1)}`,
+    `${field2.slice(0, 5)}.${field2.slice(5)}${mod10(field2)}`,
+    `${field3.slice(0, 5)}.${field3.slice(5)}${mod10(field3)}`,
+    dv,
+    `${factor}${amount}`,
+  ].join(" ");
+
+  return { barcode, digitableLine, dueDate: input.dueDate.toISOString().slice(0, 10) };
+}
+
+// Campo livre numérico derivado do id da transação (usado pelo simulador)
+export function freeFieldFromId(id: string): string {
+  const digits = BigInt(`0x${id.replace(/[^0-9a-f]/gi, "")}`).toString();
+  return digits.slice(-25).padStart(25, "0");
+}
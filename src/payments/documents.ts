@@ -0,0 +1,118 @@
+import PDFDocument from "pdfkit";
+import { Invoice } from "../../generated/prisma";
+import { PAYMENT_METHOD_LABELS, formatInvoiceNumber, invoiceIssuer } from "./invoices";
+
+// Fatura com a referência da fatura original, no caso de notas de crédito
+export type InvoiceDocument = Invoice & { invoiceOf: Pick<Invoice, "kind" | "number"> | null };
+
+const TITLES = {
+  INVOICE: "Recibo de pagamento",
+  CREDIT_NOTE: "Nota de crédito",
+} as const;
+
+function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, (c) => `&#${c.charCodeAt(0)};`);
+}
+
+function formatMoney(value: { toNumber(): number }): string {
+  return value.toNumber().toLocaleString("pt-BR", { style: "currency", currency: "BRL" });
+}
+
+function formatDate(date: Date): string {
+  return date.toLocaleString("pt-BR", { timeZone: "America/Sao_Paulo" });
+}
+
+// Linhas "rótulo: valor" comuns ao HTML e ao PDF
+function summaryRows(invoice: InvoiceDocument): [string, string][] {
+  const rows: [string, string][] = [
+    ["Número", formatInvoiceNumber(invoice)],
+    ["Emissão", formatDate(invoice.issuedAt)],
+  ];
+  if (invoice.invoiceOf) rows.push(["Referente à fatura", formatInvoiceNumber(invoice.invoiceOf)]);
+  rows.push(["Cliente", `${invoice.buyerName} <${invoice.buyerEmail}>`]);
+  if (invoice.paymentMethod) {
+    rows.push(["Forma de pagamento", PAYMENT_METHOD_LABELS[invoice.paymentMethod] ?? invoice.paymentMethod]);
+  }
+  return rows;
+}
+
+function amountRows(invoice: InvoiceDocument): [string, string][] {
+  const rows: [string, string][] = [];
+  if (!invoice.discount.isZero()) {
+    rows.push(["Subtotal", formatMoney(invoice.subtotal)], ["Desconto", `- ${formatMoney(invoice.discount)}`]);
+  }
+  rows.push([invoice.kind === "CREDIT_NOTE" ? "Valor estornado" : "Total pago", formatMoney(invoice.total)]);
+  return rows;
+}
+
+export function renderInvoiceHtml(invoice: InvoiceDocument): string {
+  const issuer = invoiceIssuer();
+  const issuerLines = [issuer.document && `CNPJ ${issuer.document}`, issuer.address, issuer.email].filter(Boolean);
+  const row = ([label, value]: [string, string]) =>
+    `<tr><th>${escapeHtml(label)}</th><td>${escapeHtml(value)}</td></tr>`;
+
+  return `<!DOCTYPE html>
+<html lang="pt-BR">
+<head>
+<meta charset="utf-8">
+<title>${TITLES[invoice.kind]} ${formatInvoiceNumber(invoice)}</title>
+<style>
+  body { font-family: Helvetica, Arial, sans-serif; color: #222; max-width: 720px; margin: 40px auto; }
+  h1 { font-size: 22px; margin-bottom: 4px; }
+  table { width: 100%; border-collapse: collapse; margin-top: 24px; }
+  th, td { text-align: left; padding: 6px 8px; border-bottom: 1px solid #ddd; }
+  th { width: 35%; color: #555; font-weight: normal; }
+  .amounts td { text-align: right; }
+  .issuer { color: #555; font-size: 13px; }
+</style>
+</head>
+<body>
+<h1>${TITLES[invoice.kind]}</h1>
+<div class="issuer"><strong>${escapeHtml(issuer.name)}</strong>${issuerLines.map((l) => `<br>${escapeHtml(l as string)}`).join("")}</div>
+<table>${summaryRows(invoice).map(row).join("")}</table>
+<table>
+<tr><th>Descrição</th><td>${escapeHtml(invoice.description)}</td></tr>
+<tr><th>Créditos</th><td>${invoice.credits}</td></tr>
+</table>
+<table class="amounts">${amountRows(invoice).map(row).join("")}</table>
+</body>
+</html>
+`;
+}
+
+export function renderInvoicePdf(invoice: InvoiceDocument): Promise<Buffer> {
+  const issuer = invoiceIssuer();
+
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({ size: "A4", margin: 56, info: { Title: formatInvoiceNumber(invoice) } });
+    const chunks: Buffer[] = [];
+    doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+
+    doc.font("Helvetica-Bold").fontSize(20).text(TITLES[invoice.kind]);
+    doc.moveDown(0.5).font("Helvetica-Bold").fontSize(11).text(issuer.name);
+    doc.font("Helvetica").fontSize(10).fillColor("#555555");
+    for (const line of [issuer.document && `CNPJ ${issuer.document}`, issuer.address, issuer.email]) {
+      if (line) doc.text(line);
+    }
+    doc.fillColor("#000000").moveDown();
+
+    const writeRows = (rows: [string, string][]) => {
+      for (const [label, value] of rows) {
+        doc.font("Helvetica").fontSize(10).fillColor("#555555").text(`${label}: `, { continued: true });
+        doc.fillColor("#000000").text(value);
+      }
+      doc.moveDown();
+    };
+
+    writeRows(summaryRows(invoice));
+    writeRows([
+      ["Descrição", invoice.description],
+      ["Créditos", String(invoice.credits)],
+    ]);
+    writeRows(amountRows(invoice));
+
+    doc.end();
+  });
+}
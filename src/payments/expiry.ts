@@ -0,0 +1,62 @@
+import { prisma } from "../lib/prisma";
+import { PaymentMethod, getPaymentProvider } from "./gateway";
+import { settlePayment } from "./settlement";
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+function envNumber(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+// Prazo informado ao cliente e ao provedor: validade do QR Code PIX ou vencimento do boleto
+export function paymentDeadline(method: PaymentMethod, from = new Date()): Date {
+  switch (method) {
+    case "pix":
+      return new Date(from.getTime() + envNumber("PIX_EXPIRATION_MINUTES", 30) * 60 * 1000);
+    case "boleto": {
+      const due = new Date(from.getTime() + envNumber("BOLETO_DUE_DAYS", 3) * DAY_MS);
+      due.setUTCHours(23, 59, 59, 999);
+      return due;
+    }
+    case "credit_card":
+      return new Date(from.getTime() + 24 * HOUR_MS);
+  }
+}
+
+// Quando a compra pendente deixa de ser aguardada. Boletos pagos no vencimento
+// podem levar alguns dias úteis para compensar, então a espera vai além do prazo.
+export function pendingExpiration(method: PaymentMethod, deadline: Date): Date {
+  if (method === "boleto") {
+    return new Date(deadline.getTime() + envNumber("BOLETO_GRACE_DAYS", 3) * DAY_MS);
+  }
+  return deadline;
+}
+
+// Cancela compras pendentes cujo prazo acabou (executado pelo agendador), liberando a reserva do cupom.
+// Se o pagamento ainda chegar depois, o webhook conclui a compra normalmente.
+export async function expirePendingPayments(): Promise<number> {
+  const expired = await prisma.creditTransaction.findMany({
+    where: { type: "PURCHASE", status: "PENDING", expiresAt: { lte: new Date() } },
+    select: { id: true, paymentId: true, paymentProvider: true },
+    take: 100,
+  });
+
+  const provider = getPaymentProvider();
+  let count = 0;
+  for (const transaction of expired) {
+    if (transaction.paymentId && transaction.paymentProvider === provider.name) {
+      try {
+        await provider.cancelIntent(transaction.paymentId);
+      } catch (error: unknown) {
+        console.warn(`⚠️ Não foi possível cancelar o pagamento ${transaction.paymentId} no provedor:`, error);
+      }
+    }
+    const result = await settlePayment(transaction.id, "cancelled", { cancellationReason: "Prazo de pagamento expirado" });
+    if (result?.applied) count++;
+  }
+
+  if (count > 0) console.log(`⌛ ${count} pagamento(s) pendente(s) expirado(s)`);
+  return count;
+}
@@ -0,0 +1,52 @@
+import { PaymentProvider } from "./providers/base";
+import { MercadoPagoProvider } from "./providers/mercadopago";
+import { SimulatorPaymentProvider } from "./providers/simulator";
+import { StripeProvider } from "./providers/stripe";
+
+export { PaymentError, WebhookSignatureError } from "./providers/base";
+export type { PaymentEvent, PaymentMethod, PaymentNextAction, PaymentProvider, PaymentStatus } from "./providers/base";
+
+function createPaymentProvider(): PaymentProvider {
+  // O simulador aprova qualquer pagamento; em produção o provedor deve ser escolhido explicitamente
+  const provider = process.env.PAYMENT_PROVIDER ?? (process.env.NODE_ENV === "production" ? undefined : "simulator");
+
+  switch (provider) {
+    case "stripe":
+      return new StripeProvider({
+        secretKey: process.env.STRIPE_SECRET_KEY,
+        webhookSecret: process.env.STRIPE_WEBHOOK_SECRET,
+      });
+    case "mercadopago":
+      return new MercadoPagoProvider({
+        accessToken: process.env.MERCADOPAGO_ACCESS_TOKEN,
+        webhookSecret: process.env.MERCADOPAGO_WEBHOOK_SECRET,
+        notificationUrl: process.env.MERCADOPAGO_NOTIFICATION_URL,
+      });
+    case "simulator":
+      return new SimulatorPaymentProvider({
+        webhookSecret: process.env.PAYMENT_WEBHOOK_SECRET,
+        pix: {
+          key: process.env.PIX_KEY ?? "pagamentos@entrevista.local",
+          merchantName: process.env.PIX_MERCHANT_NAME ?? "Entrevista IA",
+          merchantCity: process.env.PIX_MERCHANT_CITY ?? "Sao Paulo",
+        },
+        boletoBankCode: process.env.BOLETO_BANK_CODE ?? "001",
+      });
+    case undefined:
+      throw new Error("PAYMENT_PROVIDER não definido no .env");
+    default:
+      throw new Error(`PAYMENT_PROVIDER inválido: ${provider}`);
+  }
+}
+
+let currentProvider: PaymentProvider | undefined;
+
+export function getPaymentProvider(): PaymentProvider {
+  currentProvider ??= createPaymentProvider();
+  return currentProvider;
+}
+
+// Permite substituir o provedor (ex.: por um simulador com outro segredo nos testes)
+export function setPaymentProvider(provider: PaymentProvider): void {
+  currentProvider = provider;
+}
@@ -0,0 +1,137 @@
+import { Invoice, InvoiceKind, Prisma } from "../../generated/prisma";
+import { inTransaction, prisma } from "../lib/prisma";
+
+const NUMBER_PREFIX: Record<InvoiceKind, string> = {
+  INVOICE: "FAT",
+  CREDIT_NOTE: "NC",
+};
+
+export const PAYMENT_METHOD_LABELS: Record<string, string> = {
+  credit_card: "Cartão de crédito",
+  pix: "PIX",
+  boleto: "Boleto bancário",
+};
+
+// Dados do emissor impressos nos documentos
+export function invoiceIssuer() {
+  return {
+    name: process.env.INVOICE_ISSUER_NAME ?? "Entrevista IA",
+    document: process.env.INVOICE_ISSUER_DOCUMENT ?? null, // CNPJ
+    address: process.env.INVOICE_ISSUER_ADDRESS ?? null,
+    email: process.env.INVOICE_ISSUER_EMAIL ?? null,
+  };
+}
+
+// Ex.: "FAT-000042" para faturas e "NC-000007" para notas de crédito
+export function formatInvoiceNumber(invoice: Pick<Invoice, "kind" | "number">): string {
+  return `${NUMBER_PREFIX[invoice.kind]}-${String(invoice.number).padStart(6, "0")}`;
+}
+
+// Próximo número da série. O bloqueio por tipo faz emissões concorrentes esperarem,
+// então a numeração não tem lacunas nem repetições.
+async function nextNumber(tx: Prisma.TransactionClient, kind: InvoiceKind): Promise<number> {
+  await tx.$queryRaw`SELECT 1 AS "locked" FROM pg_advisory_xact_lock(hashtext(${`invoice:${kind}`}))`;
+  const last = await tx.invoice.aggregate({ where: { kind }, _max: { number: true } });
+  return (last._max.number ?? 0) + 1;
+}
+
+// Emite a fatura de uma compra concluída. Idempotente: devolve a fatura já emitida, se houver;
+// retorna null se a transação não for uma compra concluída.
+export async function issueInvoice(tx: Prisma.TransactionClient, transactionId: string): Promise<Invoice | null> {
+  const existing = await tx.invoice.findUnique({ where: { transactionId } });
+  if (existing) return existing;
+
+  const purchase = await tx.creditTransaction.findUnique({
+    where: { id: transactionId },
+    include: {
+      user: { select: { fullName: true, email: true } },
+      package: { select: { name: true } },
+    },
+  });
+  if (!purchase || purchase.type !== "PURCHASE" || purchase.status !== "COMPLETED") return null;
+
+  const metadata = purchase.metadata as Prisma.JsonObject | null;
+  const coupon = metadata?.coupon as { originalPrice?: string } | undefined;
+  const total = purchase.price ?? new Prisma.Decimal(0);
+  const subtotal = coupon?.originalPrice ? new Prisma.Decimal(coupon.originalPrice) : total;
+
+  const description = purchase.subscriptionId
+    ? `Mensalidade da assinatura ${metadata?.planName ?? ""}`.trim()
+    : `${purchase.package?.name ?? metadata?.packageName ?? "Pacote de créditos"} (${purchase.amount} créditos)`;
+
+  return tx.invoice.create({
+    data: {
+      kind: "INVOICE",
+      number: await nextNumber(tx, "INVOICE"),
+      transactionId: purchase.id,
+      userId: purchase.userId,
+      buyerName: purchase.user.fullName,
+      buyerEmail: purchase.user.email,
+      description,
+      credits: purchase.amount,
+      subtotal,
+      discount: subtotal.sub(total),
+      total,
+      paymentMethod: typeof metadata?.paymentMethod === "string" ? metadata.paymentMethod : null,
+    },
+  });
+}
+
+// Emite a nota de crédito de um estorno de compra, vinculada à fatura original
+// (emitida agora, se ainda não existir). Retorna null para estornos que não são de compras.
+export async function issueCreditNote(tx: Prisma.TransactionClient, refundId: string): Promise<Invoice | null> {
+  const existing = await tx.invoice.findUnique({ where: { transactionId: refundId } });
+  if (existing) return existing;
+
+  const refund = await tx.creditTransaction.findUnique({ where: { id: refundId } });
+  if (!refund || refund.type !== "REFUND" || !refund.refundOfId) return null;
+
+  const invoice = await issueInvoice(tx, refund.refundOfId);
+  if (!invoice) return null;
+
+  const credits = Math.abs(refund.amount);
+  const total = refund.price ?? new Prisma.Decimal(0);
+
+  return tx.invoice.create({
+    data: {
+      kind: "CREDIT_NOTE",
+      number: await nextNumber(tx, "CREDIT_NOTE"),
+      transactionId: refund.id,
+      invoiceOfId: invoice.id,
+      userId: invoice.userId,
+      buyerName: invoice.buyerName,
+      buyerEmail: invoice.buyerEmail,
+      description: `Estorno de ${credits} crédito(s) da fatura ${formatInvoiceNumber(invoice)}`,
+      credits,
+      subtotal: total,
+      total,
+      paymentMethod: invoice.paymentMethod,
+    },
+  });
+}
+
+// Emite os documentos que ainda faltam (ex.: compras anteriores à emissão automática), da
+// transação mais antiga para a mais recente. Usado apenas pelo script de recuperação
+// (scripts/issue-missing-invoices.js); as rotas só leem, para a numeração não depender de consultas.
+export async function issueMissingInvoices(
+  userId?: string,
+  client: Prisma.TransactionClient = prisma,
+): Promise<number> {
+  const pending = await client.creditTransaction.findMany({
+    where: {
+      ...(userId && { userId }),
+      status: "COMPLETED",
+      invoice: { is: null },
+      OR: [{ type: "PURCHASE" }, { type: "REFUND", refundOf: { type: "PURCHASE" } }],
+    },
+    orderBy: { createdAt: "asc" },
+    select: { id: true, type: true },
+  });
+
+  for (const transaction of pending) {
+    await inTransaction(client, (tx) =>
+      transaction.type === "PURCHASE" ? issueInvoice(tx, transaction.id) : issueCreditNote(tx, transaction.id),
+    );
+  }
+  return pending.length;
+}
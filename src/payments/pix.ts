@@ -0,0 +1,71 @@
+import QRCode from "qrcode";
+
+// BR Code do PIX ("copia e cola"): campos EMV no formato ID (2 dígitos) + tamanho (2 dígitos) + valor,
+// terminando com o CRC16 do payload inteiro
+
+export interface PixChargeInput {
+  key: string; // Chave PIX do recebedor
+  merchantName: string;
+  merchantCity: string;
+  amount: number; // Em reais
+  txid: string; // Identificador da cobrança (até 25 caracteres alfanuméricos)
+  description?: string;
+}
+
+function field(id: string, value: string): string {
+  return `${id}${String(value.length).padStart(2, "0")}${value}`;
+}
+
+// Nome e cidade só aceitam ASCII sem acentos, com tamanho máximo definido pelo Banco Central
+function sanitize(value: string, maxLength: number): string {
+  return value
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^A-Za-z0-9 ]/g, "")
+    .trim()
+    .slice(0, maxLength)
+    .toUpperCase();
+}
+
+// CRC16-CCITT (polinômio 0x1021, valor inicial 0xFFFF), em 4 dígitos hexadecimais
+export function crc16(payload: string): string {
+  let crc = 0xffff;
+  for (const byte of Buffer.from(payload, "utf8")) {
+    crc ^= byte << 8;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 0x8000 ? ((crc << 1) ^ 0x1021) & 0xffff : (crc << 1) & 0xffff;
+    }
+  }
+  return crc.toString(16).toUpperCase().padStart(4, "0");
+}
+
+export function pixTxid(transactionId: string): string {
+  return transactionId.replace(/[^A-Za-z0-9]/g, "").slice(0, 25);
+}
+
+export function buildPixBrCode(input: PixChargeInput): string {
+  const merchantAccount =
+    field("00", "br.gov.bcb.pix") +
+    field("01", input.key) +
+    (input.description ? field("02", input.description.slice(0, 40)) : "");
+
+  const payload =
+    field("00", "01") + // Versão do payload
+    field("01", "12") + // Uso único
+    field("26", merchantAccount) +
+    field("52", "0000") + // Categoria do recebedor (não informada)
+    field("53", "986") + // BRL
+    field("54", input.amount.toFixed(2)) +
+    field("58", "BR") +
+    field("59", sanitize(input.merchantName, 25)) +
+    field("60", sanitize(input.merchantCity, 15)) +
+    field("62", field("05", pixTxid(input.txid))) +
+    "6304";
+
+  return payload + crc16(payload);
+}
+
+// Imagem PNG do QR Code em data URL, pronta para um <img src>
+export function pixQrCodeImage(brCode: string): Promise<string> {
+  return QRCode.toDataURL(brCode, { errorCorrectionLevel: "M", margin: 2, width: 320 });
+}
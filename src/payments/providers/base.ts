@@ -0,0 +1,96 @@
+import { createHmac, timingSafeEqual } from "node:crypto";
+
+export type PaymentMethod = "credit_card" | "pix" | "boleto";
+
+export type PaymentStatus = "pending" | "succeeded" | "failed" | "cancelled";
+
+export interface CreateIntentInput {
+  transactionId: string; // Enviado ao provedor como referência externa
+  amountCents: number;
+  currency: "BRL";
+  method: PaymentMethod;
+  description: string;
+  customer: { name: string; email: string };
+  deadline: Date; // Validade do QR Code PIX ou vencimento do boleto
+}
+
+// O que o cliente precisa fazer para concluir o pagamento
+export type PaymentNextAction =
+  | { type: "pix"; brCode: string; qrCodeImage?: string } // "Copia e cola" e imagem (data URL)
+  | { type: "boleto"; digitableLine: string; barcode: string; dueDate: string; url?: string }
+  | { type: "card_action"; details: Record<string, unknown> }; // Ex.: autenticação 3DS
+
+export interface PaymentIntent {
+  id: string; // ID do pagamento no provedor
+  status: PaymentStatus;
+  clientSecret?: string; // Usado pelo frontend para concluir o pagamento com cartão
+  nextAction?: PaymentNextAction;
+}
+
+// Notificação já validada e normalizada, independente do provedor
+export interface PaymentEvent {
+  id: string; // ID do evento; usado para descartar reenvios
+  type: string;
+  paymentId: string;
+  transactionId?: string | undefined;
+  status: PaymentStatus;
+}
+
+export interface PaymentProvider {
+  readonly name: string;
+  readonly methods: readonly PaymentMethod[];
+  createIntent(input: CreateIntentInput): Promise<PaymentIntent>;
+  // Confirmação feita pelo servidor (cartão). PIX e boleto são confirmados pelo webhook.
+  confirmIntent?(paymentId: string, paymentMethodId?: string): Promise<PaymentIntent>;
+  cancelIntent(paymentId: string): Promise<void>;
+  // Verifica a assinatura e interpreta o corpo bruto do webhook; null para eventos ignorados
+  parseWebhook(rawBody: string, headers: Record<string, string | string[] | undefined>): Promise<PaymentEvent | null>;
+}
+
+export class PaymentError extends Error {
+  constructor(message: string, readonly status?: number) {
+    super(message);
+    this.name = "PaymentError";
+  }
+}
+
+export class WebhookSignatureError extends Error {
+  constructor(message = "Assinatura do webhook inválida.") {
+    super(message);
+    this.name = "WebhookSignatureError";
+  }
+}
+
+export function headerValue(headers: Record<string, string | string[] | undefined>, name: string): string | undefined {
+  const value = headers[name.toLowerCase()];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+// Lê cabeçalhos no formato "t=123,v1=abc" (Stripe) ou "ts=123,v1=abc" (Mercado Pago)
+export function parseSignatureHeader(header: string): Map<string, string[]> {
+  const parts = new Map<string, string[]>();
+  for (const item of header.split(",")) {
+    const [key, ...rest] = item.trim().split("=");
+    if (!key || rest.length === 0) continue;
+    parts.set(key, [...(parts.get(key) ?? []), rest.join("=")]);
+  }
+  return parts;
+}
+
+export function hmacSha256(secret: string, payload: string): string {
+  return createHmac("sha256", secret).update(payload).digest("hex");
+}
+
+// Comparação em tempo constante para não vazar a assinatura esperada
+export function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+}
+
+// Rejeita notificações antigas para impedir reenvio de payloads capturados
+export function assertFreshTimestamp(timestampSeconds: number, toleranceSeconds = 300): void {
+  if (!Number.isFinite(timestampSeconds) || Math.abs(Date.now() / 1000 - timestampSeconds) > toleranceSeconds) {
+    throw new WebhookSignatureError("Webhook fora da janela de tempo permitida.");
+  }
+}
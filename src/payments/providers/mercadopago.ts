@@ -0,0 +1,172 @@
+import {
+  CreateIntentInput,
+  PaymentError,
+  PaymentEvent,
+  PaymentIntent,
+  PaymentNextAction,
+  PaymentProvider,
+  PaymentStatus,
+  WebhookSignatureError,
+  assertFreshTimestamp,
+  headerValue,
+  hmacSha256,
+  parseSignatureHeader,
+  safeEqual,
+} from "./base";
+
+interface MercadoPagoConfig {
+  accessToken: string | undefined;
+  webhookSecret: string | undefined;
+  notificationUrl: string | undefined;
+}
+
+interface MercadoPagoPayment {
+  id: number;
+  status: string;
+  external_reference?: string | null;
+  date_of_expiration?: string | null;
+  point_of_interaction?: {
+    transaction_data?: { qr_code?: string; qr_code_base64?: string; ticket_url?: string };
+  };
+  transaction_details?: { external_resource_url?: string; digitable_line?: string };
+  barcode?: { content?: string };
+}
+
+const STATUS_MAP: Record<string, PaymentStatus> = {
+  approved: "succeeded",
+  authorized: "pending",
+  pending: "pending",
+  in_process: "pending",
+  in_mediation: "pending",
+  rejected: "failed",
+  cancelled: "cancelled",
+  refunded: "cancelled",
+  charged_back: "cancelled",
+};
+
+// API de pagamentos do Mercado Pago (PIX e boleto)
+export class MercadoPagoProvider implements PaymentProvider {
+  readonly name = "mercadopago";
+  readonly methods = ["pix", "boleto"] as const;
+
+  constructor(private readonly config: MercadoPagoConfig) {}
+
+  private async request(method: string, path: string, body?: unknown, idempotencyKey?: string): Promise<MercadoPagoPayment> {
+    if (!this.config.accessToken) {
+      throw new PaymentError("MERCADOPAGO_ACCESS_TOKEN não está definido.");
+    }
+
+    const response = await fetch(`https://api.mercadopago.com/v1${path}`, {
+      method,
+      headers: {
+        Authorization: `Bearer ${this.config.accessToken}`,
+        "Content-Type": "application/json",
+        ...(idempotencyKey && { "X-Idempotency-Key": idempotencyKey }),
+      },
+      ...(body !== undefined && { body: JSON.stringify(body) }),
+    });
+
+    const data = await response.json();
+    if (!response.ok) {
+      console.error("❌ Erro do Mercado Pago:", data);
+      throw new PaymentError(data?.message ?? `Mercado Pago retornou ${response.status}`, response.status);
+    }
+    return data as MercadoPagoPayment;
+  }
+
+  private toIntent(payment: MercadoPagoPayment): PaymentIntent {
+    const pix = payment.point_of_interaction?.transaction_data;
+    const details = payment.transaction_details;
+    let nextAction: PaymentNextAction | undefined;
+    if (pix?.qr_code) {
+      nextAction = {
+        type: "pix",
+        brCode: pix.qr_code,
+        ...(pix.qr_code_base64 && { qrCodeImage: `data:image/png;base64,${pix.qr_code_base64}` }),
+      };
+    } else if (details?.digitable_line && payment.barcode?.content) {
+      nextAction = {
+        type: "boleto",
+        digitableLine: details.digitable_line,
+        barcode: payment.barcode.content,
+        dueDate: payment.date_of_expiration?.slice(0, 10) ?? "",
+        ...(details.external_resource_url && { url: details.external_resource_url }),
+      };
+    }
+
+    return {
+      id: String(payment.id),
+      status: STATUS_MAP[payment.status] ?? "failed",
+      ...(nextAction && { nextAction }),
+    };
+  }
+
+  async createIntent(input: CreateIntentInput): Promise<PaymentIntent> {
+    const payment = await this.request(
+      "POST",
+      "/payments",
+      {
+        transaction_amount: input.amountCents / 100,
+        description: input.description,
+        payment_method_id: input.method === "pix" ? "pix" : "bolbradesco",
+        external_reference: input.transactionId,
+        date_of_expiration: input.deadline.toISOString(),
+        payer: { email: input.customer.email, first_name: input.customer.name },
+        ...(this.config.notificationUrl && { notification_url: this.config.notificationUrl }),
+      },
+      // Evita cobrança duplicada se a criação for repetida
+      input.transactionId,
+    );
+    return this.toIntent(payment);
+  }
+
+  async cancelIntent(paymentId: string): Promise<void> {
+    await this.request("PUT", `/payments/${encodeURIComponent(paymentId)}`, { status: "cancelled" });
+  }
+
+  // Cabeçalho x-signature: "ts=<timestamp>,v1=<hmac do manifesto>", com
+  // manifesto "id:<data.id>;request-id:<x-request-id>;ts:<ts>;"
+  async parseWebhook(
+    rawBody: string,
+    headers: Record<string, string | string[] | undefined>,
+  ): Promise<PaymentEvent | null> {
+    if (!this.config.webhookSecret) {
+      throw new PaymentError("MERCADOPAGO_WEBHOOK_SECRET não está definido.");
+    }
+
+    const header = headerValue(headers, "x-signature");
+    const requestId = headerValue(headers, "x-request-id");
+    if (!header || !requestId) throw new WebhookSignatureError();
+
+    const notification = JSON.parse(rawBody);
+    const dataId = notification?.data?.id;
+    if (!dataId) throw new WebhookSignatureError();
+
+    const parts = parseSignatureHeader(header);
+    const timestamp = parts.get("ts")?.[0];
+    const signature = parts.get("v1")?.[0];
+    if (!timestamp || !signature) throw new WebhookSignatureError();
+
+    const manifest = `id:${String(dataId).toLowerCase()};request-id:${requestId};ts:${timestamp};`;
+    if (!safeEqual(signature, hmacSha256(this.config.webhookSecret, manifest))) {
+      throw new WebhookSignatureError();
+    }
+    // O Mercado Pago envia ts em milissegundos
+    assertFreshTimestamp(Number(timestamp) / 1000);
+
+    if (notification.type !== "payment") return null;
+
+    // A notificação não traz o status; ele é consultado na API
+    const payment = await this.request("GET", `/payments/${encodeURIComponent(String(dataId))}`);
+    const status = STATUS_MAP[payment.status] ?? "failed";
+
+    return {
+      // Um evento por mudança de status: reenvios da mesma situação são descartados
+      id: `${payment.id}:${payment.status}`,
+      type: `payment.${payment.status}`,
+      paymentId: String(payment.id),
+      transactionId: payment.external_reference ?? undefined,
+      status,
+    };
+  }
+}
@@ -0,0 +1,153 @@
+import { randomUUID } from "node:crypto";
+import { buildBoleto, freeFieldFromId } from "../boleto";
+import { buildPixBrCode } from "../pix";
+import {
+  CreateIntentInput,
+  PaymentError,
+  PaymentEvent,
+  PaymentIntent,
+  PaymentMethod,
+  PaymentNextAction,
+  PaymentProvider,
+  PaymentStatus,
+  WebhookSignatureError,
+  assertFreshTimestamp,
+  headerValue,
+  hmacSha256,
+  parseSignatureHeader,
+  safeEqual,
+} from "./base";
+
+// Cartão de teste que sempre é recusado, no estilo dos cartões de teste da Stripe
+export const DECLINED_PAYMENT_METHOD = "pm_card_declined";
+
+const SIGNATURE_HEADER = "x-simulator-signature";
+
+interface SimulatorConfig {
+  webhookSecret: string | undefined; // Sem valor padrão: o webhook é público e o simulador aprova qualquer status
+  pix: { key: string; merchantName: string; merchantCity: string };
+  boletoBankCode: string;
+}
+
+interface SimulatedPayment {
+  id: string;
+  transactionId: string;
+  method: PaymentMethod;
+  status: PaymentStatus;
+}
+
+// Provedor local, sem rede: pagamentos ficam em memória e os webhooks são
+// assinados com o mesmo esquema "t=,v1=" usado pela Stripe
+export class SimulatorPaymentProvider implements PaymentProvider {
+  readonly name = "simulator";
+  readonly methods = ["credit_card", "pix", "boleto"] as const;
+
+  private readonly payments = new Map<string, SimulatedPayment>();
+
+  constructor(private readonly config: SimulatorConfig) {}
+
+  private find(paymentId: string): SimulatedPayment {
+    const payment = this.payments.get(paymentId);
+    if (!payment) throw new PaymentError("Pagamento não encontrado no simulador.", 404);
+    return payment;
+  }
+
+  private nextAction(input: CreateIntentInput): PaymentNextAction | undefined {
+    const amount = input.amountCents / 100;
+    switch (input.method) {
+      case "pix":
+        return {
+          type: "pix",
+          brCode: buildPixBrCode({ ...this.config.pix, amount, txid: input.transactionId }),
+        };
+      case "boleto":
+        return {
+          type: "boleto",
+          ...buildBoleto({
+            bankCode: this.config.boletoBankCode,
+            amount,
+            dueDate: input.deadline,
+            freeField: freeFieldFromId(input.transactionId),
+          }),
+        };
+      default:
+        return undefined;
+    }
+  }
+
+  async createIntent(input: CreateIntentInput): Promise<PaymentIntent> {
+    const id = `sim_${randomUUID()}`;
+    this.payments.set(id, { id, transactionId: input.transactionId, method: input.method, status: "pending" });
+    const nextAction = this.nextAction(input);
+    return {
+      id,
+      status: "pending",
+      ...(input.method === "credit_card" && { clientSecret: `${id}_secret` }),
+      ...(nextAction && { nextAction }),
+    };
+  }
+
+  async confirmIntent(paymentId: string, paymentMethodId?: string): Promise<PaymentIntent> {
+    const payment = this.find(paymentId);
+    if (payment.status === "pending") {
+      payment.status = paymentMethodId === DECLINED_PAYMENT_METHOD ? "failed" : "succeeded";
+    }
+    return { id: payment.id, status: payment.status };
+  }
+
+  async cancelIntent(paymentId: string): Promise<void> {
+    const payment = this.find(paymentId);
+    if (payment.status === "pending") payment.status = "cancelled";
+  }
+
+  private webhookSecret(): string {
+    if (!this.config.webhookSecret) {
+      throw new PaymentError("PAYMENT_WEBHOOK_SECRET não está definida.");
+    }
+    return this.config.webhookSecret;
+  }
+
+  // Gera um webhook assinado para o pagamento, como o provedor real faria
+  signWebhook(paymentId: string, status: PaymentStatus): { body: string; headers: Record<string, string> } {
+    const secret = this.webhookSecret();
+    const payment = this.find(paymentId);
+    payment.status = status;
+    const body = JSON.stringify({
+      id: `evt_${randomUUID()}`,
+      type: `payment.${status}`,
+      data: { paymentId: payment.id, transactionId: payment.transactionId, status },
+    });
+    const timestamp = Math.floor(Date.now() / 1000);
+    const signature = hmacSha256(secret, `${timestamp}.${body}`);
+    return {
+      body,
+      headers: { "content-type": "application/json", [SIGNATURE_HEADER]: `t=${timestamp},v1=${signature}` },
+    };
+  }
+
+  async parseWebhook(
+    rawBody: string,
+    headers: Record<string, string | string[] | undefined>,
+  ): Promise<PaymentEvent | null> {
+    const secret = this.webhookSecret();
+    const header = headerValue(headers, SIGNATURE_HEADER);
+    if (!header) throw new WebhookSignatureError();
+
+    const parts = parseSignatureHeader(header);
+    const timestamp = parts.get("t")?.[0];
+    const signature = parts.get("v1")?.[0];
+    if (!timestamp || !signature || !safeEqual(signature, hmacSha256(secret, `${timestamp}.${rawBody}`))) {
+      throw new WebhookSignatureError();
+    }
+    assertFreshTimestamp(Number(timestamp));
+
+    const event = JSON.parse(rawBody);
+    return {
+      id: event.id,
+      type: event.type,
+      paymentId: event.data.paymentId,
+      transactionId: event.data.transactionId,
+      status: event.data.status,
+    };
+  }
+}
@@ -0,0 +1,142 @@
+import {
+  CreateIntentInput,
+  PaymentError,
+  PaymentEvent,
+  PaymentIntent,
+  PaymentProvider,
+  PaymentStatus,
+  WebhookSignatureError,
+  assertFreshTimestamp,
+  headerValue,
+  hmacSha256,
+  parseSignatureHeader,
+  safeEqual,
+} from "./base";
+
+interface StripeConfig {
+  secretKey: string | undefined;
+  webhookSecret: string | undefined;
+}
+
+interface StripePaymentIntent {
+  id: string;
+  status: string;
+  client_secret?: string;
+  next_action?: Record<string, unknown> | null;
+  metadata?: Record<string, string>;
+}
+
+const STATUS_MAP: Record<string, PaymentStatus> = {
+  succeeded: "succeeded",
+  canceled: "cancelled",
+  requires_payment_method: "pending",
+  requires_confirmation: "pending",
+  requires_action: "pending",
+  processing: "pending",
+};
+
+const EVENT_STATUS: Record<string, PaymentStatus> = {
+  "payment_intent.succeeded": "succeeded",
+  "payment_intent.payment_failed": "failed",
+  "payment_intent.canceled": "cancelled",
+};
+
+// API de PaymentIntents da Stripe (cartão de crédito)
+export class StripeProvider implements PaymentProvider {
+  readonly name = "stripe";
+  readonly methods = ["credit_card"] as const;
+
+  constructor(private readonly config: StripeConfig) {}
+
+  private async request(path: string, params: Record<string, string> = {}): Promise<StripePaymentIntent> {
+    if (!this.config.secretKey) {
+      throw new PaymentError("STRIPE_SECRET_KEY não está definida.");
+    }
+
+    const response = await fetch(`https://api.stripe.com/v1${path}`, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${this.config.secretKey}`,
+        "Content-Type": "application/x-www-form-urlencoded",
+      },
+      body: new URLSearchParams(params).toString(),
+    });
+
+    const data = await response.json();
+    if (!response.ok) {
+      console.error("❌ Erro da Stripe:", data);
+      throw new PaymentError(data?.error?.message ?? `Stripe retornou ${response.status}`, response.status);
+    }
+    return data as StripePaymentIntent;
+  }
+
+  private toIntent(intent: StripePaymentIntent): PaymentIntent {
+    return {
+      id: intent.id,
+      status: STATUS_MAP[intent.status] ?? "failed",
+      ...(intent.client_secret && { clientSecret: intent.client_secret }),
+      ...(intent.next_action && { nextAction: { type: "card_action" as const, details: intent.next_action } }),
+    };
+  }
+
+  async createIntent(input: CreateIntentInput): Promise<PaymentIntent> {
+    const intent = await this.request("/payment_intents", {
+      amount: String(input.amountCents),
+      currency: input.currency.toLowerCase(),
+      description: input.description,
+      receipt_email: input.customer.email,
+      "payment_method_types[]": "card",
+      "metadata[transactionId]": input.transactionId,
+    });
+    return this.toIntent(intent);
+  }
+
+  async confirmIntent(paymentId: string, paymentMethodId?: string): Promise<PaymentIntent> {
+    const intent = await this.request(
+      `/payment_intents/${encodeURIComponent(paymentId)}/confirm`,
+      paymentMethodId ? { payment_method: paymentMethodId } : {},
+    );
+    return this.toIntent(intent);
+  }
+
+  async cancelIntent(paymentId: string): Promise<void> {
+    await this.request(`/payment_intents/${encodeURIComponent(paymentId)}/cancel`);
+  }
+
+  // Cabeçalho Stripe-Signature: "t=<timestamp>,v1=<hmac de `${t}.${corpo}`>"
+  async parseWebhook(
+    rawBody: string,
+    headers: Record<string, string | string[] | undefined>,
+  ): Promise<PaymentEvent | null> {
+    if (!this.config.webhookSecret) {
+      throw new PaymentError("STRIPE_WEBHOOK_SECRET não está definida.");
+    }
+
+    const header = headerValue(headers, "stripe-signature");
+    if (!header) throw new WebhookSignatureError();
+
+    const parts = parseSignatureHeader(header);
+    const timestamp = parts.get("t")?.[0];
+    const signatures = parts.get("v1") ?? [];
+    if (!timestamp || signatures.length === 0) throw new WebhookSignatureError();
+
+    const expected = hmacSha256(this.config.webhookSecret, `${timestamp}.${rawBody}`);
+    if (!signatures.some((signature) => safeEqual(signature, expected))) {
+      throw new WebhookSignatureError();
+    }
+    assertFreshTimestamp(Number(timestamp));
+
+    const event = JSON.parse(rawBody);
+    const status = EVENT_STATUS[event?.type];
+    const intent = event?.data?.object as StripePaymentIntent | undefined;
+    if (!status || !intent?.id) return null;
+
+    return {
+      id: event.id,
+      type: event.type,
+      paymentId: intent.id,
+      transactionId: intent.metadata?.transactionId,
+      status,
+    };
+  }
+}
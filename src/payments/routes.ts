@@ -1,31 +1,53 @@
 import { FastifyInstance } from "fastify";
 import { z } from "zod";
 import { Prisma } from "../../generated/prisma";
+import { CouponError, CouponQuote, couponMetadata, couponSummary, quoteCoupon, reserveCoupon } from "../coupons/coupons";
+import { RefundError, refundTransaction } from "../credits/refunds";
+import { canAccessUser, requireRole } from "../lib/auth";
+import { idempotencyKey, storeIdempotentResponse } from "../lib/idempotency";
 import { prisma } from "../lib/prisma";
+import { renderInvoiceHtml, renderInvoicePdf } from "./documents";
+import { paymentDeadline, pendingExpiration } from "./expiry";
+import { PaymentError, WebhookSignatureError, getPaymentProvider } from "./gateway";
+import { formatInvoiceNumber } from "./invoices";
+import { pixQrCodeImage } from "./pix";
+import { SimulatorPaymentProvider } from "./providers/simulator";
+import { settlePayment } from "./settlement";
 
 export async function paymentsRoutes(app: FastifyInstance): Promise<void> {
   
-  // POST /payments/create-intent - Criar intenção de pagamento
+  // POST /payments/create-intent - Criar intenção de pagamento no provedor configurado
   app.post<{ Body: unknown }>("/create-intent", {
+    preHandler: idempotencyKey,
+    onSend: storeIdempotentResponse,
     schema: {
       body: {
         type: "object",
-        required: ["userId", "packageId"],
+        required: ["packageId"],
         properties: {
-          userId: { type: "string", format: "uuid" },
           packageId: { type: "string", format: "uuid" },
           paymentMethod: { type: "string", enum: ["credit_card", "pix", "boleto"] },
+          couponCode: { type: "string", minLength: 1 },
         },
       },
     },
     handler: async (request, reply) => {
       const bodySchema = z.object({
-        userId: z.string().uuid(),
         packageId: z.string().uuid(),
         paymentMethod: z.enum(["credit_card", "pix", "boleto"]).default("credit_card"),
+        couponCode: z.string().min(1).optional(),
       });
       
-      const { userId, packageId, paymentMethod } = bodySchema.parse(request.body);
+      const { packageId, paymentMethod, couponCode } = bodySchema.parse(request.body);
+      const userId = request.user.id;
+      const provider = getPaymentProvider();
+      
+      if (!provider.methods.includes(paymentMethod)) {
+        return reply.code(400).send({
+          message: "Forma de pagamento não suportada pelo provedor configurado.",
+          supportedMethods: provider.methods,
+        });
+      }
       
       try {
         // Verificar se o usuário existe
@@ -48,31 +70,128 @@ export async function paymentsRoutes(app: FastifyInstance): Promise<void> {
           return reply.code(404).send({ message: "Pacote de créditos não encontrado ou inativo." });
         }
         
+        // O cupom é validado agora e reservado junto com a compra; o uso só é confirmado
+        // quando o pagamento for aprovado
+        let quote: CouponQuote | null = null;
+        if (couponCode) {
+          try {
+            quote = await quoteCoupon(couponCode, userId, creditPackage);
+          } catch (error: unknown) {
+            if (error instanceof CouponError) {
+              return reply.code(error.statusCode).send({ message: error.message });
+            }
+            throw error;
+          }
+        }
+        const price = quote?.finalPrice ?? creditPackage.price;
+        
+        const deadline = paymentDeadline(paymentMethod);
+        
         // Criar transação pendente
-        const transaction = await prisma.creditTransaction.create({
+        let transaction;
+        try {
+          transaction = await prisma.$transaction(async (tx) => {
+            const created = await tx.creditTransaction.create({
+              data: {
+                type: "PURCHASE",
+                status: "PENDING",
+                amount: creditPackage.credits,
+                price,
+                userId,
+                packageId,
+                paymentProvider: provider.name,
+                expiresAt: pendingExpiration(paymentMethod, deadline),
+                metadata: {
+                  paymentMethod,
+                  packageName: creditPackage.name,
+                  createdAt: new Date().toISOString(),
+                  ...(quote && { coupon: couponMetadata(quote) }),
+                },
+              },
+            });
+            if (quote) await reserveCoupon(tx, quote, userId, created.id);
+            return created;
+          });
+        } catch (error: unknown) {
+          if (error instanceof CouponError) {
+            return reply.code(error.statusCode).send({ message: error.message });
+          }
+          throw error;
+        }
+        
+        // Cupom que zera o preço: não há o que cobrar no provedor
+        if (price.isZero()) {
+          let result;
+          try {
+            result = await settlePayment(transaction.id, "succeeded", { paidWithCoupon: true });
+          } catch (error: unknown) {
+            if (error instanceof CouponError) {
+              await settlePayment(transaction.id, "failed", { failureReason: error.message });
+              return reply.code(error.statusCode).send({ message: error.message });
+            }
+            throw error;
+          }
+          return reply.code(201).send({
+            id: transaction.id,
+            provider: null,
+            status: "succeeded",
+            amount: 0,
+            currency: "BRL",
+            paymentMethod,
+            coupon: quote && couponSummary(quote),
+            creditsPurchased: creditPackage.credits,
+            newBalance: result?.newBalance,
+          });
+        }
+        
+        let intent;
+        try {
+          intent = await provider.createIntent({
+            transactionId: transaction.id,
+            amountCents: price.mul(100).toNumber(),
+            currency: "BRL",
+            method: paymentMethod,
+            description: `${creditPackage.name} (${creditPackage.credits} créditos)`,
+            customer: { name: user.fullName, email: user.email },
+            deadline,
+          });
+        } catch (error: unknown) {
+          await settlePayment(transaction.id, "failed", {
+            failureReason: (error as Error).message,
+          });
+          throw error;
+        }
+        
+        // Instruções de PIX/boleto ficam guardadas para o cliente consultar depois
+        await prisma.creditTransaction.update({
+          where: { id: transaction.id },
           data: {
-            type: "PURCHASE",
-            status: "PENDING",
-            amount: creditPackage.credits,
-            price: creditPackage.price,
-            userId,
-            packageId,
-            paymentId: `temp_${Date.now()}`, // ID temporário
-            metadata: {
-              paymentMethod,
-              packageName: creditPackage.name,
-              createdAt: new Date().toISOString(),
-            },
+            paymentId: intent.id,
+            ...(intent.nextAction && {
+              metadata: {
+                ...(transaction.metadata as Prisma.JsonObject),
+                nextAction: intent.nextAction as unknown as Prisma.InputJsonObject,
+              },
+            }),
           },
         });
         
-        // Simular resposta de gateway de pagamento
+        let nextAction = intent.nextAction ?? null;
+        if (nextAction?.type === "pix" && !nextAction.qrCodeImage) {
+          nextAction = { ...nextAction, qrCodeImage: await pixQrCodeImage(nextAction.brCode) };
+        }
+        
         const paymentIntent = {
           id: transaction.id,
-          status: "requires_payment_method",
-          amount: creditPackage.price.toNumber(),
+          provider: provider.name,
+          paymentId: intent.id,
+          status: intent.status,
+          amount: price.toNumber(),
           currency: "BRL",
-          clientSecret: `pi_${transaction.id}_secret_${Date.now()}`,
+          coupon: quote && couponSummary(quote),
+          clientSecret: intent.clientSecret ?? null,
+          nextAction,
+          expiresAt: deadline,
           paymentMethod,
           package: {
             id: creditPackage.id,
@@ -90,6 +209,12 @@ export async function paymentsRoutes(app: FastifyInstance): Promise<void> {
         return reply.code(201).send(paymentIntent);
         
       } catch (error: unknown) {
+        if (error instanceof PaymentError) {
+          return reply.code(502).send({
+            message: "Erro de comunicação com o provedor de pagamento.",
+            details: error.message,
+          });
+        }
         console.error("Erro ao criar intenção de pagamento:", error);
         return reply.code(500).send({
           message: "Erro interno ao criar intenção de pagamento.",
@@ -98,8 +223,10 @@ export async function paymentsRoutes(app: FastifyInstance): Promise<void> {
     },
   });
 
-  // POST /payments/confirm - Confirmar pagamento (simulado)
+  // POST /payments/confirm - Confirmar pagamento com cartão (PIX e boleto são confirmados pelo webhook)
   app.post<{ Body: unknown }>("/confirm", {
+    preHandler: idempotencyKey,
+    onSend: storeIdempotentResponse,
     schema: {
       body: {
         type: "object",
@@ -117,13 +244,13 @@ export async function paymentsRoutes(app: FastifyInstance): Promise<void> {
       });
       
       const { transactionId, paymentMethodId } = bodySchema.parse(request.body);
+      const provider = getPaymentProvider();
       
       try {
         // Buscar transação
-        const transaction = await prisma.creditTransaction.findUnique({
-          where: { id: transactionId },
+        const transaction = await prisma.creditTransaction.findFirst({
+          where: { id: transactionId, userId: request.user.id },
           include: {
-            user: { select: { id: true, credits: true } },
             package: { select: { id: true, name: true, credits: true, price: true } },
           },
         });
@@ -132,6 +259,10 @@ export async function paymentsRoutes(app: FastifyInstance): Promise<void> {
           return reply.code(404).send({ message: "Transação não encontrada." });
         }
         
+        if (transaction.type !== "PURCHASE") {
+          return reply.code(400).send({ message: "Tipo de transação inválido." });
+        }
+        
         if (transaction.status !== "PENDING") {
           return reply.code(400).send({ 
             message: "Transação já foi processada.",
@@ -139,71 +270,46 @@ export async function paymentsRoutes(app: FastifyInstance): Promise<void> {
           });
         }
         
-        if (transaction.type !== "PURCHASE") {
-          return reply.code(400).send({ message: "Tipo de transação inválido." });
+        const paymentMethod = (transaction.metadata as Prisma.JsonObject | null)?.paymentMethod;
+        if (
+          paymentMethod !== "credit_card" ||
+          !transaction.paymentId ||
+          transaction.paymentProvider !== provider.name ||
+          !provider.confirmIntent
+        ) {
+          return reply.code(400).send({
+            message: "Este pagamento é confirmado automaticamente pelo provedor.",
+          });
         }
         
-        // Simular processamento de pagamento (sempre bem-sucedido para demo)
-        const paymentSuccess = Math.random() > 0.1; // 90% de chance de sucesso
+        const intent = await provider.confirmIntent(transaction.paymentId, paymentMethodId);
+        const result = await settlePayment(transactionId, intent.status, {
+          ...(paymentMethodId && { paymentMethodId }),
+        });
         
-        if (!paymentSuccess) {
-          // Pagamento falhou
-          const updatedTransaction = await prisma.creditTransaction.update({
-            where: { id: transactionId },
-            data: { 
-              status: "FAILED",
-              metadata: {
-                ...(transaction.metadata as any),
-                paymentMethodId,
-                failedAt: new Date().toISOString(),
-                failureReason: "Payment method declined",
-              },
-            },
+        if (intent.status === "pending") {
+          return reply.code(202).send({
+            message: "Pagamento em processamento.",
+            transactionId,
+            status: "PENDING",
+            nextAction: intent.nextAction ?? null,
           });
-          
+        }
+        
+        if (intent.status !== "succeeded") {
           return reply.code(400).send({
             message: "Pagamento recusado.",
-            transactionId: updatedTransaction.id,
-            status: updatedTransaction.status,
+            transactionId,
+            status: result?.status,
           });
         }
         
-        // Pagamento bem-sucedido - executar transação
-        const result = await prisma.$transaction(async (tx) => {
-          // Atualizar saldo de créditos do usuário
-          const updatedUser = await tx.user.update({
-            where: { id: transaction.userId },
-            data: { credits: { increment: transaction.amount } },
-            select: { credits: true },
-          });
-          
-          // Atualizar status da transação
-          const updatedTransaction = await tx.creditTransaction.update({
-            where: { id: transactionId },
-            data: {
-              status: "COMPLETED",
-              paymentId: `pm_${transactionId}_${Date.now()}`,
-              metadata: {
-                ...(transaction.metadata as any),
-                paymentMethodId,
-                completedAt: new Date().toISOString(),
-                gatewayResponse: {
-                  status: "succeeded",
-                  transactionId: `txn_${Date.now()}`,
-                },
-              },
-            },
-          });
-          
-          return { updatedUser, updatedTransaction };
-        });
-        
         return {
           message: "Pagamento confirmado com sucesso!",
-          transactionId: result.updatedTransaction.id,
-          status: result.updatedTransaction.status,
+          transactionId,
+          status: result?.status,
           creditsPurchased: transaction.amount,
-          newBalance: result.updatedUser.credits,
+          newBalance: result?.newBalance,
           package: {
             name: transaction.package?.name,
             credits: transaction.package?.credits,
@@ -212,6 +318,12 @@ export async function paymentsRoutes(app: FastifyInstance): Promise<void> {
         };
         
       } catch (error: unknown) {
+        if (error instanceof PaymentError) {
+          return reply.code(502).send({
+            message: "Erro de comunicação com o provedor de pagamento.",
+            details: error.message,
+          });
+        }
         console.error("Erro ao confirmar pagamento:", error);
         return reply.code(500).send({
           message: "Erro interno ao confirmar pagamento.",
@@ -239,10 +351,11 @@ export async function paymentsRoutes(app: FastifyInstance): Promise<void> {
       });
       
       const { transactionId, reason } = bodySchema.parse(request.body);
+      const provider = getPaymentProvider();
       
       try {
-        const transaction = await prisma.creditTransaction.findUnique({
-          where: { id: transactionId },
+        const transaction = await prisma.creditTransaction.findFirst({
+          where: { id: transactionId, userId: request.user.id },
         });
         
         if (!transaction) {
@@ -256,25 +369,27 @@ export async function paymentsRoutes(app: FastifyInstance): Promise<void> {
           });
         }
         
-        const updatedTransaction = await prisma.creditTransaction.update({
-          where: { id: transactionId },
-          data: {
-            status: "CANCELLED",
-            metadata: {
-              ...(transaction.metadata as any),
-              cancelledAt: new Date().toISOString(),
-              cancellationReason: reason || "User cancelled",
-            },
-          },
+        if (transaction.paymentId && transaction.paymentProvider === provider.name) {
+          await provider.cancelIntent(transaction.paymentId);
+        }
+        
+        const result = await settlePayment(transactionId, "cancelled", {
+          cancellationReason: reason || "User cancelled",
         });
         
         return {
-          message: "Pagamento cancelado com sucesso.",
-          transactionId: updatedTransaction.id,
-          status: updatedTransaction.status,
+          message: result?.applied ? "Pagamento cancelado com sucesso." : "O pagamento já havia sido processado.",
+          transactionId,
+          status: result?.status,
         };
         
       } catch (error: unknown) {
+        if (error instanceof PaymentError) {
+          return reply.code(502).send({
+            message: "Erro de comunicação com o provedor de pagamento.",
+            details: error.message,
+          });
+        }
         console.error("Erro ao cancelar pagamento:", error);
         return reply.code(500).send({
           message: "Erro interno ao cancelar pagamento.",
@@ -301,7 +416,7 @@ export async function paymentsRoutes(app: FastifyInstance): Promise<void> {
         },
       },
     },
-    handler: async (request) => {
+    handler: async (request, reply) => {
       const paramsSchema = z.object({ userId: z.string().uuid() });
       const querySchema = z.object({
         page: z.coerce.number().int().min(1).default(1),
@@ -311,6 +426,10 @@ export async function paymentsRoutes(app: FastifyInstance): Promise<void> {
       const { userId } = paramsSchema.parse(request.params);
       const { page, perPage } = querySchema.parse(request.query);
       
+      if (!canAccessUser(request, userId)) {
+        return reply.code(403).send({ message: "Acesso negado." });
+      }
+      
       const where = {
         userId,
         type: "PURCHASE" as const,
@@ -330,9 +449,20 @@ export async function paymentsRoutes(app: FastifyInstance): Promise<void> {
             price: true,
             createdAt: true,
             updatedAt: true,
+            refundedAmount: true,
             package: {
               select: { name: true, credits: true },
             },
+            refunds: {
+              select: {
+                id: true,
+                amount: true,
+                price: true,
+                createdAt: true,
+                invoice: { select: { id: true, kind: true, number: true } },
+              },
+            },
+            invoice: { select: { id: true, kind: true, number: true } },
             metadata: true,
           },
         }),
@@ -347,38 +477,278 @@ export async function paymentsRoutes(app: FastifyInstance): Promise<void> {
     },
   });
 
-  // POST /payments/webhook - Webhook para receber notificações de pagamento (simulado)
-  app.post<{ Body: unknown }>("/webhook", {
+  // GET /payments/:userId/invoices - Faturas e notas de crédito do usuário
+  app.get<{ Params: { userId: string } }>("/:userId/invoices", {
+    schema: {
+      params: {
+        type: "object",
+        required: ["userId"],
+        properties: {
+          userId: { type: "string", format: "uuid" },
+        },
+      },
+    },
     handler: async (request, reply) => {
+      const paramsSchema = z.object({ userId: z.string().uuid() });
+      const { userId } = paramsSchema.parse(request.params);
+      
+      if (!canAccessUser(request, userId)) {
+        return reply.code(403).send({ message: "Acesso negado." });
+      }
+      
+      const invoices = await prisma.invoice.findMany({
+        where: { userId },
+        orderBy: [{ issuedAt: "desc" }, { number: "desc" }],
+        select: {
+          id: true,
+          kind: true,
+          number: true,
+          issuedAt: true,
+          transactionId: true,
+          invoiceOfId: true,
+          description: true,
+          credits: true,
+          total: true,
+          paymentMethod: true,
+        },
+      });
+      
+      return {
+        invoices: invoices.map((invoice) => ({
+          ...invoice,
+          formattedNumber: formatInvoiceNumber(invoice),
+        })),
+      };
+    },
+  });
+
+  // GET /payments/invoices/:invoiceId - Baixar fatura ou nota de crédito em PDF (padrão) ou HTML
+  app.get<{ Params: { invoiceId: string }; Querystring: unknown }>("/invoices/:invoiceId", {
+    schema: {
+      params: {
+        type: "object",
+        required: ["invoiceId"],
+        properties: {
+          invoiceId: { type: "string", format: "uuid" },
+        },
+      },
+      querystring: {
+        type: "object",
+        properties: {
+          format: { type: "string", enum: ["pdf", "html"] },
+        },
+      },
+    },
+    handler: async (request, reply) => {
+      const paramsSchema = z.object({ invoiceId: z.string().uuid() });
+      const querySchema = z.object({
+        format: z.enum(["pdf", "html"]).default("pdf"),
+      });
+      
+      const { invoiceId } = paramsSchema.parse(request.params);
+      const { format } = querySchema.parse(request.query);
+      
+      const invoice = await prisma.invoice.findUnique({
+        where: { id: invoiceId },
+        include: { invoiceOf: { select: { kind: true, number: true } } },
+      });
+      
+      // Documentos de outros usuários respondem 404 para não revelar que existem
+      if (!invoice || !canAccessUser(request, invoice.userId)) {
+        return reply.code(404).send({ message: "Documento não encontrado." });
+      }
+      
+      const filename = `${formatInvoiceNumber(invoice)}.${format}`;
+      
+      if (format === "html") {
+        return reply
+          .type("text/html; charset=utf-8")
+          .header("Content-Disposition", `inline; filename="${filename}"`)
+          .send(renderInvoiceHtml(invoice));
+      }
+      
+      return reply
+        .type("application/pdf")
+        .header("Content-Disposition", `attachment; filename="${filename}"`)
+        .send(await renderInvoicePdf(invoice));
+    },
+  });
+
+  // POST /payments/:transactionId/refund - Estornar compra de créditos, total ou parcial (admin)
+  app.post<{ Params: { transactionId: string }; Body: unknown }>("/:transactionId/refund", {
+    preHandler: requireRole("ADMIN"),
+    schema: {
+      params: {
+        type: "object",
+        required: ["transactionId"],
+        properties: {
+          transactionId: { type: "string", format: "uuid" },
+        },
+      },
+      body: {
+        type: "object",
+        required: ["reason"],
+        properties: {
+          credits: { type: "integer", minimum: 1 },
+          reason: { type: "string", minLength: 1 },
+        },
+      },
+    },
+    handler: async (request, reply) => {
+      const paramsSchema = z.object({ transactionId: z.string().uuid() });
       const bodySchema = z.object({
-        type: z.string(),
-        data: z.object({
-          id: z.string(),
-          status: z.string(),
-          metadata: z.object({
-            transactionId: z.string().uuid(),
-          }).optional(),
-        }),
+        credits: z.number().int().min(1).optional(),
+        reason: z.string().min(1),
       });
       
+      const { transactionId } = paramsSchema.parse(request.params);
+      const { credits, reason } = bodySchema.parse(request.body);
+      
       try {
-        const { type, data } = bodySchema.parse(request.body);
+        const result = await refundTransaction(transactionId, {
+          type: "PURCHASE",
+          credits,
+          reason,
+          refundedBy: request.user.id,
+        });
         
-        // Simular processamento de webhook
-        console.log(`Webhook recebido: ${type}`, data);
+        return reply.code(201).send(result);
+      } catch (error: unknown) {
+        if (error instanceof RefundError) {
+          return reply.code(error.statusCode).send({ message: error.message });
+        }
+        console.error("Erro ao estornar transação:", error);
+        return reply.code(500).send({
+          message: "Erro interno ao estornar transação.",
+        });
+      }
+    },
+  });
+
+  // POST /payments/simulator/:transactionId/webhook - Simula a notificação do provedor (fora de produção)
+  // O simulador não chama o webhook sozinho: o evento é assinado e entregue a /payments/webhook,
+  // passando pela mesma verificação de assinatura e liquidação dos provedores reais
+  if (process.env.NODE_ENV !== "production") {
+    app.post<{ Params: { transactionId: string }; Body: unknown }>("/simulator/:transactionId/webhook", {
+      schema: {
+        params: {
+          type: "object",
+          required: ["transactionId"],
+          properties: {
+            transactionId: { type: "string", format: "uuid" },
+          },
+        },
+        body: {
+          type: "object",
+          required: ["status"],
+          properties: {
+            status: { type: "string", enum: ["succeeded", "failed", "cancelled"] },
+          },
+        },
+      },
+      handler: async (request, reply) => {
+        const paramsSchema = z.object({ transactionId: z.string().uuid() });
+        const bodySchema = z.object({ status: z.enum(["succeeded", "failed", "cancelled"]) });
+
+        const { transactionId } = paramsSchema.parse(request.params);
+        const { status } = bodySchema.parse(request.body);
+        const provider = getPaymentProvider();
+
+        if (!(provider instanceof SimulatorPaymentProvider)) {
+          return reply.code(404).send({ message: "Simulador de pagamentos não está ativo." });
+        }
+
+        const transaction = await prisma.creditTransaction.findFirst({
+          where: { id: transactionId, userId: request.user.id },
+          select: { paymentId: true, paymentProvider: true },
+        });
+
+        if (!transaction?.paymentId || transaction.paymentProvider !== provider.name) {
+          return reply.code(404).send({ message: "Transação não encontrada." });
+        }
+
+        try {
+          const { body, headers } = provider.signWebhook(transaction.paymentId, status);
+          const response = await app.inject({ method: "POST", url: "/payments/webhook", headers, payload: body });
+          return reply.code(response.statusCode).send(response.json());
+        } catch (error: unknown) {
+          if (error instanceof PaymentError) {
+            return reply.code(error.status ?? 502).send({ message: error.message });
+          }
+          console.error("Erro ao simular webhook:", error);
+          return reply.code(500).send({ message: "Erro interno ao simular webhook." });
+        }
+      },
+    });
+  }
+
+  // POST /payments/webhook - Notificações do provedor de pagamento (assinatura verificada)
+  // Registrado em um contexto próprio para receber o corpo bruto, necessário para a assinatura
+  app.register(async (webhook) => {
+    webhook.addContentTypeParser("application/json", { parseAs: "string" }, (_request, body, done) => {
+      done(null, body);
+    });
+
+    webhook.post("/webhook", async (request, reply) => {
+      const provider = getPaymentProvider();
+      const rawBody = typeof request.body === "string" ? request.body : "";
+      
+      let event;
+      try {
+        event = await provider.parseWebhook(rawBody, request.headers);
+      } catch (error: unknown) {
+        if (error instanceof WebhookSignatureError) {
+          request.log.warn({ err: error }, "Webhook de pagamento rejeitado");
+          return reply.code(401).send({ message: error.message });
+        }
+        if (error instanceof SyntaxError) {
+          return reply.code(400).send({ message: "Webhook inválido." });
+        }
+        console.error("Erro ao processar webhook:", error);
+        return reply.code(500).send({ message: "Erro interno ao processar webhook." });
+      }
+      
+      if (!event) {
+        return reply.send({ received: true });
+      }
+      
+      try {
+        const processed = await prisma.$transaction(async (tx) => {
+          const transaction = event.transactionId
+            ? await tx.creditTransaction.findUnique({ where: { id: event.transactionId }, select: { id: true } })
+            : await tx.creditTransaction.findFirst({
+              where: { paymentProvider: provider.name, paymentId: event.paymentId },
+              select: { id: true },
+            });
+          
+          await tx.paymentWebhookEvent.create({
+            data: {
+              id: `${provider.name}:${event.id}`,
+              provider: provider.name,
+              type: event.type,
+              paymentId: event.paymentId,
+              transactionId: transaction?.id ?? null,
+            },
+          });
+          
+          if (!transaction) return null;
+          return settlePayment(transaction.id, event.status, { paymentId: event.paymentId, lastEvent: event.type }, tx);
+        });
         
-        if (type === "payment_intent.succeeded" && data.metadata?.transactionId) {
-          // Aqui você processaria o pagamento real
-          // Por enquanto, apenas log
-          console.log(`Pagamento confirmado para transação: ${data.metadata.transactionId}`);
+        if (!processed) {
+          request.log.warn({ event }, "Webhook de pagamento sem transação correspondente");
         }
         
         return reply.send({ received: true });
         
       } catch (error: unknown) {
+        // Evento já processado: confirma o recebimento para o provedor parar de reenviar
+        if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
+          return reply.send({ received: true, duplicate: true });
+        }
         console.error("Erro ao processar webhook:", error);
-        return reply.code(400).send({ message: "Webhook inválido." });
+        return reply.code(500).send({ message: "Erro interno ao processar webhook." });
       }
-    },
+    });
   });
 }
@@ -0,0 +1,80 @@
+import { Prisma, TransactionStatus } from "../../generated/prisma";
+import { redeemCoupon, releaseCouponReservation } from "../coupons/coupons";
+import { SYSTEM_ACCOUNTS } from "../credits/ledger";
+import { creditsExpiry, grantCredits } from "../credits/lots";
+import { inTransaction, prisma } from "../lib/prisma";
+import { activateSubscriptionPeriod } from "../subscriptions/subscriptions";
+import { PaymentStatus } from "./gateway";
+import { issueInvoice } from "./invoices";
+
+const TARGET_STATUS: Record<Exclude<PaymentStatus, "pending">, TransactionStatus> = {
+  succeeded: "COMPLETED",
+  failed: "FAILED",
+  cancelled: "CANCELLED",
+};
+
+export interface SettlementResult {
+  applied: boolean; // false se a transação já estava no estado final correspondente
+  status: TransactionStatus;
+  newBalance?: number;
+}
+
+// Aplica o resultado informado pelo provedor a uma compra de créditos ou cobrança de assinatura.
+// A mudança de status é condicional, então o crédito acontece uma única vez
+// mesmo com webhooks repetidos ou concorrentes com /payments/confirm.
+export async function settlePayment(
+  transactionId: string,
+  status: PaymentStatus,
+  details: Record<string, unknown> = {},
+  client: Prisma.TransactionClient = prisma,
+): Promise<SettlementResult | null> {
+  return inTransaction(client, async (tx) => {
+    const transaction = await tx.creditTransaction.findUnique({ where: { id: transactionId } });
+    if (!transaction || transaction.type !== "PURCHASE") return null;
+
+    if (status === "pending") {
+      return { applied: false, status: transaction.status };
+    }
+
+    const target = TARGET_STATUS[status];
+    // Pagamento aprovado vale mesmo que a compra tenha sido cancelada localmente (ex.: PIX pago depois)
+    const from: TransactionStatus[] = target === "COMPLETED" ? ["PENDING", "FAILED", "CANCELLED"] : ["PENDING"];
+
+    const { count } = await tx.creditTransaction.updateMany({
+      where: { id: transaction.id, status: { in: from } },
+      data: {
+        status: target,
+        metadata: {
+          ...(transaction.metadata as Prisma.JsonObject | null),
+          ...details,
+          [`${status}At`]: new Date().toISOString(),
+        } as Prisma.InputJsonObject,
+      },
+    });
+    if (count === 0) {
+      return { applied: false, status: transaction.status };
+    }
+
+    if (target !== "COMPLETED") {
+      await releaseCouponReservation(tx, transaction.id);
+      return { applied: true, status: target };
+    }
+
+    // Cobranças de assinatura não compram créditos diretamente: eles vêm da concessão do período
+    // A validade dos créditos conta a partir da confirmação do pagamento
+    const creditPackage = transaction.packageId
+      ? await tx.creditPackage.findUnique({ where: { id: transaction.packageId }, select: { validityDays: true } })
+      : null;
+    const creditsExpireAt = creditsExpiry(creditPackage?.validityDays);
+
+    if (transaction.amount > 0) {
+      await grantCredits(tx, transaction.userId, transaction.amount, transaction.id, SYSTEM_ACCOUNTS.SALES, creditsExpireAt);
+    }
+    await redeemCoupon(tx, transaction, creditsExpireAt);
+    await activateSubscriptionPeriod(tx, transaction);
+    await issueInvoice(tx, transaction.id);
+
+    const user = await tx.user.findUniqueOrThrow({ where: { id: transaction.userId }, select: { credits: true } });
+    return { applied: true, status: target, newBalance: user.credits };
+  });
+}
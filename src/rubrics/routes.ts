@@ -0,0 +1,238 @@
+import { FastifyInstance } from "fastify";
+import { z } from "zod";
+import { Prisma } from "../../generated/prisma";
+import { prisma } from "../lib/prisma";
+
+const SENIORITY_LEVELS = ["INTERN", "JUNIOR", "MID", "SENIOR", "LEAD"] as const;
+
+const competencyInputSchema = z.object({
+  key: z.string().regex(/^[a-z0-9_]+$/, "Use apenas letras minúsculas, números e _"),
+  name: z.string().min(1),
+  description: z.string().optional(),
+  weight: z.number().int().min(1).max(10).default(1),
+});
+
+const competencyJsonSchema = {
+  type: "object",
+  required: ["key", "name"],
+  properties: {
+    key: { type: "string", pattern: "^[a-z0-9_]+$" },
+    name: { type: "string", minLength: 1 },
+    description: { type: "string" },
+    weight: { type: "integer", minimum: 1, maximum: 10 },
+  },
+};
+
+const rubricInclude = {
+  competencies: { orderBy: { position: "asc" as const } },
+};
+
+function uniqueKeys(competencies: { key: string }[]): boolean {
+  return new Set(competencies.map((c) => c.key)).size === competencies.length;
+}
+
+function toCompetencyData(competencies: z.infer<typeof competencyInputSchema>[]) {
+  return competencies.map((c, position) => ({
+    key: c.key,
+    name: c.name,
+    description: c.description ?? null,
+    weight: c.weight,
+    position,
+  }));
+}
+
+export async function rubricsRoutes(app: FastifyInstance): Promise<void> {
+
+  // POST /rubrics - Criar roteiro de entrevista
+  app.post<{ Body: unknown }>("/", {
+    schema: {
+      body: {
+        type: "object",
+        required: ["name", "competencies"],
+        properties: {
+          name: { type: "string", minLength: 1 },
+          description: { type: "string" },
+          seniority: { type: "string", enum: SENIORITY_LEVELS },
+          language: { type: "string", minLength: 2 },
+          mustAskQuestions: { type: "array", items: { type: "string", minLength: 1 } },
+          competencies: { type: "array", minItems: 1, items: competencyJsonSchema },
+        },
+      },
+    },
+    handler: async (request, reply) => {
+      const bodySchema = z.object({
+        name: z.string().min(1),
+        description: z.string().optional(),
+        seniority: z.enum(SENIORITY_LEVELS).optional(),
+        language: z.string().min(2).default("pt-BR"),
+        mustAskQuestions: z.array(z.string().min(1)).default([]),
+        competencies: z.array(competencyInputSchema).min(1),
+      });
+
+      const { name, description, seniority, language, mustAskQuestions, competencies } = bodySchema.parse(request.body);
+
+      if (!uniqueKeys(competencies)) {
+        return reply.code(400).send({ message: "As competências devem ter identificadores únicos." });
+      }
+
+      const rubric = await prisma.rubric.create({
+        data: {
+          name,
+          description: description ?? null,
+          seniority: seniority ?? null,
+          language,
+          mustAskQuestions,
+          userId: request.user.id,
+          competencies: { create: toCompetencyData(competencies) },
+        },
+        include: rubricInclude,
+      });
+
+      return reply.code(201).send(rubric);
+    },
+  });
+
+  // GET /rubrics - Listar roteiros do usuário
+  app.get("/", {
+    handler: async (request) => {
+      const rubrics = await prisma.rubric.findMany({
+        where: { userId: request.user.id },
+        orderBy: { createdAt: "desc" },
+        include: rubricInclude,
+      });
+
+      return { rubrics };
+    },
+  });
+
+  // GET /rubrics/:id - Obter roteiro
+  app.get<{ Params: { id: string } }>("/:id", {
+    schema: {
+      params: {
+        type: "object",
+        required: ["id"],
+        properties: {
+          id: { type: "string", format: "uuid" },
+        },
+      },
+    },
+    handler: async (request, reply) => {
+      const paramsSchema = z.object({ id: z.string().uuid() });
+      const { id } = paramsSchema.parse(request.params);
+
+      const rubric = await prisma.rubric.findFirst({
+        where: { id, userId: request.user.id },
+        include: rubricInclude,
+      });
+
+      if (!rubric) {
+        return reply.code(404).send({ message: "Roteiro não encontrado." });
+      }
+
+      return rubric;
+    },
+  });
+
+  // PATCH /rubrics/:id - Atualizar roteiro (competências enviadas substituem as atuais)
+  app.patch<{ Params: { id: string }; Body: unknown }>("/:id", {
+    schema: {
+      params: {
+        type: "object",
+        required: ["id"],
+        properties: {
+          id: { type: "string", format: "uuid" },
+        },
+      },
+      body: {
+        type: "object",
+        properties: {
+          name: { type: "string", minLength: 1 },
+          description: { type: "string" },
+          seniority: { type: ["string", "null"], enum: [...SENIORITY_LEVELS, null] },
+          language: { type: "string", minLength: 2 },
+          mustAskQuestions: { type: "array", items: { type: "string", minLength: 1 } },
+          competencies: { type: "array", minItems: 1, items: competencyJsonSchema },
+        },
+        additionalProperties: false,
+      },
+    },
+    handler: async (request, reply) => {
+      const paramsSchema = z.object({ id: z.string().uuid() });
+      const bodySchema = z
+        .object({
+          name: z.string().min(1).optional(),
+          description: z.string().optional(),
+          seniority: z.enum(SENIORITY_LEVELS).nullable().optional(),
+          language: z.string().min(2).optional(),
+          mustAskQuestions: z.array(z.string().min(1)).optional(),
+          competencies: z.array(competencyInputSchema).min(1).optional(),
+        })
+        .strict();
+
+      const { id } = paramsSchema.parse(request.params);
+      const { competencies, ...fields } = bodySchema.parse(request.body ?? {});
+
+      const existing = await prisma.rubric.findFirst({
+        where: { id, userId: request.user.id },
+        select: { id: true },
+      });
+
+      if (!existing) {
+        return reply.code(404).send({ message: "Roteiro não encontrado." });
+      }
+
+      if (competencies && !uniqueKeys(competencies)) {
+        return reply.code(400).send({ message: "As competências devem ter identificadores únicos." });
+      }
+
+      const data: Prisma.RubricUpdateInput = {};
+      if (fields.name !== undefined) data.name = fields.name;
+      if (fields.description !== undefined) data.description = fields.description;
+      if (fields.seniority !== undefined) data.seniority = fields.seniority;
+      if (fields.language !== undefined) data.language = fields.language;
+      if (fields.mustAskQuestions !== undefined) data.mustAskQuestions = fields.mustAskQuestions;
+      if (competencies) {
+        data.competencies = { deleteMany: {}, create: toCompetencyData(competencies) };
+      }
+
+      if (Object.keys(data).length === 0) {
+        return reply.code(400).send({ message: "Nada para atualizar." });
+      }
+
+      const rubric = await prisma.rubric.update({
+        where: { id },
+        data,
+        include: rubricInclude,
+      });
+
+      return rubric;
+    },
+  });
+
+  // DELETE /rubrics/:id - Excluir roteiro (as vagas vinculadas ficam sem roteiro)
+  app.delete<{ Params: { id: string } }>("/:id", {
+    schema: {
+      params: {
+        type: "object",
+        required: ["id"],
+        properties: {
+          id: { type: "string", format: "uuid" },
+        },
+      },
+    },
+    handler: async (request, reply) => {
+      const paramsSchema = z.object({ id: z.string().uuid() });
+      const { id } = paramsSchema.parse(request.params);
+
+      const { count } = await prisma.rubric.deleteMany({
+        where: { id, userId: request.user.id },
+      });
+
+      if (count === 0) {
+        return reply.code(404).send({ message: "Roteiro não encontrado." });
+      }
+
+      return reply.code(204).send();
+    },
+  });
+}
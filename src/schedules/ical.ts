@@ -0,0 +1,91 @@
+import { InterviewType, Schedule } from "../../generated/prisma";
+
+// Geração de iCalendar (RFC 5545). Cada agendamento vira um VEVENT com UID estável; a cada
+// remarcação ou cancelamento o SEQUENCE aumenta, e os calendários atualizam o mesmo evento.
+
+const PRODID = "-//Entrevista IA//Agendamentos//PT-BR";
+const UID_DOMAIN = "entrevista-ia";
+const MAX_LINE_OCTETS = 75;
+
+const INTERVIEW_TYPE_LABELS: Record<InterviewType, string> = {
+	TEXT: "Texto",
+	VOICE: "Voz",
+	AVATAR: "Avatar",
+};
+
+export type CalendarSchedule = Schedule & {
+	job: { title: string; interviewType: InterviewType; durationMinutes: number };
+};
+
+function escapeText(value: string): string {
+	return value.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+}
+
+// 20251111T220000Z
+function formatUtc(date: Date): string {
+	return date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+// Linhas com mais de 75 octetos continuam na seguinte, iniciada por um espaço,
+// sem partir caracteres multibyte
+function foldLine(line: string): string {
+	const parts: string[] = [];
+	let current = "";
+	let octets = 0;
+	for (const char of line) {
+		const size = Buffer.byteLength(char);
+		const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+		if (octets + size > limit) {
+			parts.push(current);
+			current = "";
+			octets = 0;
+		}
+		current += char;
+		octets += size;
+	}
+	parts.push(current);
+	return parts.join("\r\n ");
+}
+
+export function scheduleUid(scheduleId: string): string {
+	return `${scheduleId}@${UID_DOMAIN}`;
+}
+
+function eventLines(schedule: CalendarSchedule): string[] {
+	const end = new Date(schedule.scheduledAt.getTime() + schedule.job.durationMinutes * 60 * 1000);
+	const description = [
+		`Vaga: ${schedule.job.title}`,
+		`Tipo de entrevista: ${INTERVIEW_TYPE_LABELS[schedule.job.interviewType]}`,
+		`Duração: ${schedule.job.durationMinutes} min`,
+	].join("\n");
+
+	return [
+		"BEGIN:VEVENT",
+		`UID:${scheduleUid(schedule.id)}`,
+		`DTSTAMP:${formatUtc(schedule.updatedAt)}`,
+		`LAST-MODIFIED:${formatUtc(schedule.updatedAt)}`,
+		`SEQUENCE:${schedule.sequence}`,
+		`DTSTART:${formatUtc(schedule.scheduledAt)}`,
+		`DTEND:${formatUtc(end)}`,
+		`SUMMARY:${escapeText(schedule.title)}`,
+		`DESCRIPTION:${escapeText(description)}`,
+		`STATUS:${schedule.status === "CANCELLED" ? "CANCELLED" : "CONFIRMED"}`,
+		"TRANSP:OPAQUE",
+		"END:VEVENT",
+	];
+}
+
+export function renderCalendar(schedules: CalendarSchedule[], options: { name: string; timezone: string }): string {
+	const lines = [
+		"BEGIN:VCALENDAR",
+		"VERSION:2.0",
+		`PRODID:${PRODID}`,
+		"CALSCALE:GREGORIAN",
+		"METHOD:PUBLISH",
+		`X-WR-CALNAME:${escapeText(options.name)}`,
+		`X-WR-TIMEZONE:${options.timezone}`,
+		...schedules.flatMap(eventLines),
+		"END:VCALENDAR",
+	];
+	return lines.map(foldLine).join("\r\n") + "\r\n";
+}
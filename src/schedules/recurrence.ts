@@ -0,0 +1,96 @@
+import { Prisma, ScheduleSeries } from "../../generated/prisma";
+import { formatInTimeZone, parseDateTimeInTimeZone } from "../lib/timezone";
+import { ScheduleError, assertSlotAvailable } from "./slots";
+
+// Limite de ocorrências geradas por uma série
+const MAX_OCCURRENCES = 100;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface WeeklyRecurrence {
+	weekdays: number[]; // 0 = domingo ... 6 = sábado
+	localTime: string; // "HH:mm"
+	startsOn: string; // "YYYY-MM-DD"
+	weeks: number;
+	timezone: string;
+}
+
+export interface SeriesInput extends WeeklyRecurrence {
+	userId: string;
+	jobId: string;
+	title: string;
+}
+
+// Instantes das ocorrências: cada dia da semana escolhido, no horário local do fuso,
+// durante `weeks` semanas a partir de startsOn (inclusive)
+export function expandWeeklyOccurrences(recurrence: WeeklyRecurrence): Date[] {
+	const [year, month, day] = recurrence.startsOn.split("-").map(Number);
+	const start = Date.UTC(year!, month! - 1, day!);
+	const occurrences: Date[] = [];
+
+	for (let offset = 0; offset < recurrence.weeks * 7; offset++) {
+		const date = new Date(start + offset * DAY_MS);
+		if (!recurrence.weekdays.includes(date.getUTCDay())) continue;
+
+		const instant = parseDateTimeInTimeZone(
+			`${date.toISOString().slice(0, 10)}T${recurrence.localTime}`,
+			recurrence.timezone,
+		);
+		if (!instant) throw new ScheduleError("Horário da recorrência inválido.", 400);
+		occurrences.push(instant);
+	}
+	return occurrences;
+}
+
+// Cria a série e todas as ocorrências na mesma transação: se qualquer horário estiver no
+// passado ou em conflito, nada é agendado
+export async function createScheduleSeries(tx: Prisma.TransactionClient, input: SeriesInput): Promise<ScheduleSeries> {
+	const occurrences = expandWeeklyOccurrences(input);
+	if (occurrences.length === 0) {
+		throw new ScheduleError("A recorrência não gera nenhuma ocorrência.", 400);
+	}
+	if (occurrences.length > MAX_OCCURRENCES) {
+		throw new ScheduleError(`A recorrência gera mais de ${MAX_OCCURRENCES} ocorrências.`, 400);
+	}
+
+	const series = await tx.scheduleSeries.create({
+		data: {
+			title: input.title,
+			weekdays: input.weekdays,
+			localTime: input.localTime,
+			startsOn: new Date(`${input.startsOn}T00:00:00Z`),
+			weeks: input.weeks,
+			timezone: input.timezone,
+			userId: input.userId,
+			jobId: input.jobId,
+		},
+	});
+
+	for (const scheduledAt of occurrences) {
+		try {
+			await assertSlotAvailable(tx, { userId: input.userId, jobId: input.jobId, scheduledAt });
+		} catch (error: unknown) {
+			if (error instanceof ScheduleError) {
+				throw new ScheduleError(error.message, error.statusCode, {
+					...error.details,
+					occurrence: formatInTimeZone(scheduledAt, input.timezone),
+				});
+			}
+			throw error;
+		}
+
+		const session = await tx.interviewSession.create({ data: { jobId: input.jobId, userId: input.userId } });
+		await tx.schedule.create({
+			data: {
+				title: input.title,
+				scheduledAt,
+				timezone: input.timezone,
+				userId: input.userId,
+				jobId: input.jobId,
+				sessionId: session.id,
+				seriesId: series.id,
+			},
+		});
+	}
+
+	return series;
+}
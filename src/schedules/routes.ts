@@ -1,70 +1,508 @@
+import { randomBytes } from "node:crypto";
 import { FastifyInstance } from "fastify";
 import { z } from "zod";
+import { Prisma } from "../../generated/prisma";
+import { hashToken } from "../auth/sessions";
+import { InvalidCursorError, cursorOrderBy, cursorWhere, decodeCursor, toCursorPage } from "../lib/pagination";
 import { prisma } from "../lib/prisma";
+import { DEFAULT_TIME_ZONE, isValidTimeZone, parseDateTimeInTimeZone } from "../lib/timezone";
+import { renderCalendar } from "./ical";
+import { createScheduleSeries } from "./recurrence";
+import { ScheduleError, assertSlotAvailable, cancelSchedule, lockUnstartedSession, presentSchedule } from "./slots";
+
+const SCHEDULE_SORT_FIELDS = ["scheduledAt", "createdAt", "title"] as const;
+
+// O feed traz os agendamentos a partir de tantos dias atrás (cancelados inclusive, para que
+// os calendários assinantes removam o evento)
+const FEED_PAST_DAYS = 90;
+const FEED_MAX_EVENTS = 1000;
+
+const calendarInclude = {
+	job: { select: { title: true, interviewType: true, durationMinutes: true } },
+} as const;
+
+const idParamsSchema = {
+	type: "object",
+	required: ["id"],
+	properties: {
+		id: { type: "string", format: "uuid" },
+	},
+};
+
+// Fuso informado na requisição ou, sem ele, o do perfil do usuário
+async function resolveTimeZone(userId: string, requested?: string): Promise<string> {
+	if (requested !== undefined) {
+		if (!isValidTimeZone(requested)) throw new ScheduleError("Fuso horário inválido.", 400);
+		return requested;
+	}
+	const user = await prisma.user.findUnique({ where: { id: userId }, select: { timezone: true } });
+	return user?.timezone ?? DEFAULT_TIME_ZONE;
+}
+
+// Data/hora com deslocamento explícito ou no horário local do fuso (ex.: "2025-11-11T19:00")
+function parseScheduleDate(value: string, timeZone: string): Date {
+	const date = parseDateTimeInTimeZone(value, timeZone);
+	if (!date) throw new ScheduleError(`Data inválida: ${value}.`, 400);
+	return date;
+}
 
 export async function schedulesRoutes(app: FastifyInstance): Promise<void> {
+	// Agenda uma entrevista: o horário precisa estar no futuro, ser de uma vaga do usuário
+	// e não se sobrepor a outro agendamento. A sessão de entrevista do horário é criada junto.
+	// Datas sem deslocamento são lidas no fuso_horario informado ou no fuso do usuário.
 	app.post<{ Body: unknown }>("/", {
 		schema: {
 			body: {
 				type: "object",
-				required: ["titulo_vaga_agendamento", "data_entrevista_agendamento", "user_id", "job_id"],
+				required: ["titulo_vaga_agendamento", "data_entrevista_agendamento", "job_id"],
 				properties: {
 					titulo_vaga_agendamento: { type: "string", minLength: 1 },
 					data_entrevista_agendamento: { type: "string" },
-					user_id: { type: "string" },
 					job_id: { type: "string" },
+					fuso_horario: { type: "string" },
 				},
 			},
 		},
 		handler: async (request, reply) => {
 			const bodySchema = z.object({
 				titulo_vaga_agendamento: z.string().min(1),
-				data_entrevista_agendamento: z.coerce.date(),
-				user_id: z.string().uuid(),
+				data_entrevista_agendamento: z.string(),
 				job_id: z.string().uuid(),
+				fuso_horario: z.string().optional(),
 			});
-			const { titulo_vaga_agendamento, data_entrevista_agendamento, user_id, job_id } = bodySchema.parse(request.body);
-			const schedule = await prisma.schedule.create({
-				data: {
-					title: titulo_vaga_agendamento,
-					scheduledAt: data_entrevista_agendamento,
-					userId: user_id,
-					jobId: job_id,
+			const { titulo_vaga_agendamento, data_entrevista_agendamento, job_id, fuso_horario } = bodySchema.parse(request.body);
+			const userId = request.user.id;
+			try {
+				const timezone = await resolveTimeZone(userId, fuso_horario);
+				const scheduledAt = parseScheduleDate(data_entrevista_agendamento, timezone);
+				const schedule = await prisma.$transaction(async (tx) => {
+					await assertSlotAvailable(tx, { userId, jobId: job_id, scheduledAt });
+					const session = await tx.interviewSession.create({ data: { jobId: job_id, userId } });
+					return tx.schedule.create({
+						data: {
+							title: titulo_vaga_agendamento,
+							scheduledAt,
+							timezone,
+							userId,
+							jobId: job_id,
+							sessionId: session.id,
+						},
+					});
+				});
+				return reply.code(201).send(presentSchedule(schedule));
+			} catch (error: unknown) {
+				if (error instanceof ScheduleError) {
+					return reply.code(error.statusCode).send({ message: error.message, ...error.details });
+				}
+				throw error;
+			}
+		},
+	});
+
+	// Remarca ou renomeia um agendamento. Se for uma ocorrência de série, só ela muda.
+	app.patch<{ Params: { id: string }; Body: unknown }>("/:id", {
+		schema: {
+			params: idParamsSchema,
+			body: {
+				type: "object",
+				properties: {
+					titulo_vaga_agendamento: { type: "string", minLength: 1 },
+					data_entrevista_agendamento: { type: "string" },
+					fuso_horario: { type: "string" },
 				},
+				additionalProperties: false,
+			},
+		},
+		handler: async (request, reply) => {
+			const paramsSchema = z.object({ id: z.string().uuid() });
+			const bodySchema = z
+				.object({
+					titulo_vaga_agendamento: z.string().min(1).optional(),
+					data_entrevista_agendamento: z.string().optional(),
+					fuso_horario: z.string().optional(),
+				})
+				.strict();
+			const { id } = paramsSchema.parse(request.params);
+			const { titulo_vaga_agendamento, data_entrevista_agendamento, fuso_horario } = bodySchema.parse(request.body ?? {});
+
+			if (titulo_vaga_agendamento === undefined && data_entrevista_agendamento === undefined && fuso_horario === undefined) {
+				return reply.code(400).send({ message: "Nada para atualizar." });
+			}
+			if (fuso_horario !== undefined && !isValidTimeZone(fuso_horario)) {
+				return reply.code(400).send({ message: "Fuso horário inválido." });
+			}
+
+			const userId = request.user.id;
+			try {
+				const schedule = await prisma.$transaction(async (tx) => {
+					const current = await tx.schedule.findFirst({ where: { id, userId } });
+					if (!current) throw new ScheduleError("Agendamento não encontrado.", 404);
+					if (current.status === "CANCELLED") throw new ScheduleError("O agendamento está cancelado.", 409);
+
+					const timezone = fuso_horario ?? current.timezone;
+					let scheduledAt: Date | undefined;
+					if (data_entrevista_agendamento !== undefined) {
+						scheduledAt = parseScheduleDate(data_entrevista_agendamento, timezone);
+						await lockUnstartedSession(tx, current.sessionId);
+						await assertSlotAvailable(tx, {
+							userId,
+							jobId: current.jobId,
+							scheduledAt,
+							ignoreScheduleId: current.id,
+						});
+					}
+
+					return tx.schedule.update({
+						where: { id },
+						data: {
+							timezone,
+							...(titulo_vaga_agendamento !== undefined && { title: titulo_vaga_agendamento }),
+							...(scheduledAt && { scheduledAt }),
+							// Fuso só muda a apresentação; o evento do calendário continua o mesmo
+							...((titulo_vaga_agendamento !== undefined || scheduledAt) && { sequence: { increment: 1 } }),
+						},
+					});
+				});
+				return presentSchedule(schedule);
+			} catch (error: unknown) {
+				if (error instanceof ScheduleError) {
+					return reply.code(error.statusCode).send({ message: error.message, ...error.details });
+				}
+				throw error;
+			}
+		},
+	});
+
+	// Cancela o agendamento; o registro continua na listagem com status CANCELLED
+	app.delete<{ Params: { id: string } }>("/:id", {
+		schema: { params: idParamsSchema },
+		handler: async (request, reply) => {
+			const paramsSchema = z.object({ id: z.string().uuid() });
+			const { id } = paramsSchema.parse(request.params);
+
+			const schedule = await prisma.schedule.findFirst({
+				where: { id, userId: request.user.id },
+				select: { id: true },
 			});
-			return reply.code(201).send(schedule);
+			if (!schedule) {
+				return reply.code(404).send({ message: "Agendamento não encontrado." });
+			}
+
+			try {
+				const cancelled = await cancelSchedule(id, "Agendamento cancelado");
+				if (!cancelled) {
+					return reply.code(409).send({ message: "O agendamento já está cancelado." });
+				}
+				return reply.code(204).send();
+			} catch (error: unknown) {
+				if (error instanceof ScheduleError) {
+					return reply.code(error.statusCode).send({ message: error.message, ...error.details });
+				}
+				throw error;
+			}
 		},
 	});
 
-	app.get("/", {
+	// Agenda uma série semanal (ex.: toda terça às 19:00 por 6 semanas). As ocorrências viram
+	// agendamentos comuns, que podem ser remarcados ou cancelados um a um.
+	app.post<{ Body: unknown }>("/series", {
+		schema: {
+			body: {
+				type: "object",
+				required: ["titulo_vaga_agendamento", "job_id", "dias_semana", "horario", "data_inicio", "semanas"],
+				properties: {
+					titulo_vaga_agendamento: { type: "string", minLength: 1 },
+					job_id: { type: "string", format: "uuid" },
+					dias_semana: {
+						type: "array",
+						minItems: 1,
+						uniqueItems: true,
+						items: { type: "integer", minimum: 0, maximum: 6 },
+					},
+					horario: { type: "string", pattern: "^([01]\\d|2[0-3]):[0-5]\\d$" },
+					data_inicio: { type: "string", format: "date" },
+					semanas: { type: "integer", minimum: 1, maximum: 52 },
+					fuso_horario: { type: "string" },
+				},
+			},
+		},
+		handler: async (request, reply) => {
+			const bodySchema = z.object({
+				titulo_vaga_agendamento: z.string().min(1),
+				job_id: z.string().uuid(),
+				dias_semana: z.array(z.number().int().min(0).max(6)).min(1),
+				horario: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/),
+				data_inicio: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+				semanas: z.number().int().min(1).max(52),
+				fuso_horario: z.string().optional(),
+			});
+			const body = bodySchema.parse(request.body);
+			const userId = request.user.id;
+			try {
+				const timezone = await resolveTimeZone(userId, body.fuso_horario);
+				const series = await prisma.$transaction(async (tx) => {
+					const created = await createScheduleSeries(tx, {
+						userId,
+						jobId: body.job_id,
+						title: body.titulo_vaga_agendamento,
+						weekdays: [...new Set(body.dias_semana)].sort((a, b) => a - b),
+						localTime: body.horario,
+						startsOn: body.data_inicio,
+						weeks: body.semanas,
+						timezone,
+					});
+					return tx.scheduleSeries.findUniqueOrThrow({
+						where: { id: created.id },
+						include: { schedules: { orderBy: { scheduledAt: "asc" } } },
+					});
+				}, { timeout: 30_000 });
+				return reply.code(201).send({ ...series, schedules: series.schedules.map(presentSchedule) });
+			} catch (error: unknown) {
+				if (error instanceof ScheduleError) {
+					return reply.code(error.statusCode).send({ message: error.message, ...error.details });
+				}
+				throw error;
+			}
+		},
+	});
+
+	// Série com todas as ocorrências, inclusive as remarcadas e as canceladas
+	app.get<{ Params: { id: string } }>("/series/:id", {
+		schema: { params: idParamsSchema },
+		handler: async (request, reply) => {
+			const paramsSchema = z.object({ id: z.string().uuid() });
+			const { id } = paramsSchema.parse(request.params);
+
+			const series = await prisma.scheduleSeries.findFirst({
+				where: { id, userId: request.user.id },
+				include: { schedules: { orderBy: { scheduledAt: "asc" } } },
+			});
+			if (!series) {
+				return reply.code(404).send({ message: "Série de agendamentos não encontrada." });
+			}
+			return { ...series, schedules: series.schedules.map(presentSchedule) };
+		},
+	});
+
+	// Cancela as ocorrências futuras da série; as que já começaram ou passaram não mudam
+	app.delete<{ Params: { id: string } }>("/series/:id", {
+		schema: { params: idParamsSchema },
+		handler: async (request, reply) => {
+			const paramsSchema = z.object({ id: z.string().uuid() });
+			const { id } = paramsSchema.parse(request.params);
+
+			const { count } = await prisma.scheduleSeries.updateMany({
+				where: { id, userId: request.user.id, cancelledAt: null },
+				data: { cancelledAt: new Date() },
+			});
+			if (count === 0) {
+				const exists = await prisma.scheduleSeries.count({ where: { id, userId: request.user.id } });
+				return exists
+					? reply.code(409).send({ message: "A série já está cancelada." })
+					: reply.code(404).send({ message: "Série de agendamentos não encontrada." });
+			}
+
+			const upcoming = await prisma.schedule.findMany({
+				where: { seriesId: id, status: "SCHEDULED", scheduledAt: { gt: new Date() } },
+				select: { id: true },
+			});
+			let cancelled = 0;
+			for (const schedule of upcoming) {
+				try {
+					if (await cancelSchedule(schedule.id, "Série de agendamentos cancelada")) cancelled++;
+				} catch (error: unknown) {
+					// Ocorrência cuja entrevista já foi iniciada
+					if (!(error instanceof ScheduleError)) throw error;
+				}
+			}
+			return { cancelled };
+		},
+	});
+
+	// Gera (ou troca) o token do feed iCalendar. O token só é exibido agora; o anterior deixa de valer.
+	app.post("/calendar/token", {
+		handler: async (request, reply) => {
+			const token = randomBytes(32).toString("base64url");
+			await prisma.user.update({
+				where: { id: request.user.id },
+				data: { calendarTokenHash: hashToken(token) },
+			});
+			return reply.code(201).send({
+				token,
+				feedUrl: `${request.protocol}://${request.host}/schedules/calendar/${token}.ics`,
+			});
+		},
+	});
+
+	// Revoga o feed iCalendar
+	app.delete("/calendar/token", {
+		handler: async (request, reply) => {
+			await prisma.user.update({ where: { id: request.user.id }, data: { calendarTokenHash: null } });
+			return reply.code(204).send();
+		},
+	});
+
+	// Feed iCalendar para assinatura no Google Agenda/Outlook. Rota pública: o token na URL autentica.
+	app.get<{ Params: { token: string } }>("/calendar/:token", {
+		schema: {
+			params: {
+				type: "object",
+				required: ["token"],
+				properties: {
+					token: { type: "string", minLength: 1 },
+				},
+			},
+		},
+		handler: async (request, reply) => {
+			const paramsSchema = z.object({ token: z.string().min(1) });
+			const { token } = paramsSchema.parse(request.params);
+
+			const user = await prisma.user.findUnique({
+				where: { calendarTokenHash: hashToken(token.replace(/\.ics$/, "")) },
+				select: { id: true, timezone: true },
+			});
+			if (!user) {
+				return reply.code(404).send({ message: "Calendário não encontrado." });
+			}
+
+			const schedules = await prisma.schedule.findMany({
+				where: {
+					userId: user.id,
+					scheduledAt: { gte: new Date(Date.now() - FEED_PAST_DAYS * 24 * 60 * 60 * 1000) },
+				},
+				include: calendarInclude,
+				orderBy: { scheduledAt: "asc" },
+				take: FEED_MAX_EVENTS,
+			});
+
+			return reply
+				.type("text/calendar; charset=utf-8")
+				.header("Cache-Control", "private, max-age=300")
+				.send(renderCalendar(schedules, { name: "Entrevistas agendadas", timezone: user.timezone }));
+		},
+	});
+
+	// Download .ics de um agendamento; importar de novo após remarcar atualiza o mesmo evento
+	app.get<{ Params: { id: string } }>("/:id/ics", {
+		schema: { params: idParamsSchema },
+		handler: async (request, reply) => {
+			const paramsSchema = z.object({ id: z.string().uuid() });
+			const { id } = paramsSchema.parse(request.params);
+
+			const schedule = await prisma.schedule.findFirst({
+				where: { id, userId: request.user.id },
+				include: calendarInclude,
+			});
+			if (!schedule) {
+				return reply.code(404).send({ message: "Agendamento não encontrado." });
+			}
+
+			return reply
+				.type("text/calendar; charset=utf-8")
+				.header("Content-Disposition", `attachment; filename="entrevista-${schedule.id}.ics"`)
+				.send(renderCalendar([schedule], { name: schedule.title, timezone: schedule.timezone }));
+		},
+	});
+
+	// Lista os agendamentos do usuário, paginada por cursor. Os filtros de tipo de entrevista
+	// e feedback se aplicam à vaga do agendamento. Datas sem deslocamento (from, to) são lidas
+	// no fuso_horario informado ou no fuso do usuário.
+	app.get<{ Querystring: unknown }>("/", {
 		schema: {
 			querystring: {
 				type: "object",
 				properties: {
 					titulo_vaga_agendamento: { type: "string" },
 					data_entrevista_agendamento: { type: "string" },
-					user_id: { type: "string" },
 					job_id: { type: "string" },
+					status: { type: "string", enum: ["SCHEDULED", "CANCELLED"] },
+					cursor: { type: "string" },
+					perPage: { type: "integer", minimum: 1, maximum: 100 },
+					from: { type: "string" },
+					to: { type: "string" },
+					fuso_horario: { type: "string" },
+					interviewType: { type: "string", enum: ["TEXT", "VOICE", "AVATAR"] },
+					hasFeedback: { type: "boolean" },
+					minScore: { type: "integer", minimum: 0, maximum: 10 },
+					maxScore: { type: "integer", minimum: 0, maximum: 10 },
+					sort: { type: "string", enum: SCHEDULE_SORT_FIELDS },
+					order: { type: "string", enum: ["asc", "desc"] },
 				},
 			},
 		},
-		handler: async (request) => {
+		handler: async (request, reply) => {
 			const querySchema = z.object({
 				titulo_vaga_agendamento: z.string().optional(),
-				data_entrevista_agendamento: z.coerce.date().optional(),
-				user_id: z.string().uuid().optional(),
+				data_entrevista_agendamento: z.string().optional(),
 				job_id: z.string().uuid().optional(),
+				status: z.enum(["SCHEDULED", "CANCELLED"]).optional(),
+				cursor: z.string().optional(),
+				perPage: z.coerce.number().int().min(1).max(100).default(20),
+				from: z.string().optional(),
+				to: z.string().optional(),
+				fuso_horario: z.string().optional(),
+				interviewType: z.enum(["TEXT", "VOICE", "AVATAR"]).optional(),
+				hasFeedback: z.boolean().optional(),
+				minScore: z.coerce.number().int().min(0).max(10).optional(),
+				maxScore: z.coerce.number().int().min(0).max(10).optional(),
+				sort: z.enum(SCHEDULE_SORT_FIELDS).default("scheduledAt"),
+				order: z.enum(["asc", "desc"]).default("asc"),
 			});
-			const { titulo_vaga_agendamento, data_entrevista_agendamento, user_id, job_id } = querySchema.parse(request.query);
-			const where: any = {};
-			if (titulo_vaga_agendamento) where.title = { contains: titulo_vaga_agendamento, mode: "insensitive" };
-			if (data_entrevista_agendamento) where.scheduledAt = data_entrevista_agendamento;
-			if (user_id) where.userId = user_id;
-			if (job_id) where.jobId = job_id;
-			const schedules = await prisma.schedule.findMany({ where, orderBy: { scheduledAt: "asc" } });
-			return schedules;
+			const query = querySchema.parse(request.query);
+			const { cursor, perPage, minScore, maxScore, sort, order } = query;
+
+			let exact: Date | undefined, from: Date | undefined, to: Date | undefined;
+			try {
+				const timezone = await resolveTimeZone(request.user.id, query.fuso_horario);
+				if (query.data_entrevista_agendamento) exact = parseScheduleDate(query.data_entrevista_agendamento, timezone);
+				if (query.from) from = parseScheduleDate(query.from, timezone);
+				if (query.to) to = parseScheduleDate(query.to, timezone);
+			} catch (error: unknown) {
+				if (error instanceof ScheduleError) return reply.code(error.statusCode).send({ message: error.message });
+				throw error;
+			}
+
+			const where: Prisma.ScheduleWhereInput = { userId: request.user.id };
+			if (query.titulo_vaga_agendamento) where.title = { contains: query.titulo_vaga_agendamento, mode: "insensitive" };
+			if (query.job_id) where.jobId = query.job_id;
+			if (query.status) where.status = query.status;
+			if (exact) {
+				where.scheduledAt = exact;
+			} else if (from || to) {
+				where.scheduledAt = { ...(from && { gte: from }), ...(to && { lte: to }) };
+			}
+
+			const job: Prisma.JobWhereInput = {};
+			if (query.interviewType) job.interviewType = query.interviewType;
+			if (query.hasFeedback !== undefined) job.feedbackSummary = query.hasFeedback ? { not: null } : null;
+			if (minScore !== undefined || maxScore !== undefined) {
+				job.feedbackScore = {
+					...(minScore !== undefined && { gte: minScore }),
+					...(maxScore !== undefined && { lte: maxScore }),
+				};
+			}
+			if (Object.keys(job).length > 0) where.job = job;
+
+			let after: Prisma.ScheduleWhereInput | undefined;
+			if (cursor) {
+				try {
+					after = cursorWhere(decodeCursor(cursor, sort), order);
+				} catch (error: unknown) {
+					if (error instanceof InvalidCursorError) return reply.code(400).send({ message: error.message });
+					throw error;
+				}
+			}
+
+			const [total, rows] = await Promise.all([
+				prisma.schedule.count({ where }),
+				prisma.schedule.findMany({
+					where: after ? { AND: [where, after] } : where,
+					orderBy: cursorOrderBy(sort, order),
+					take: perPage + 1,
+				}),
+			]);
+			const page = toCursorPage(rows, perPage, total, sort);
+			return { ...page, items: page.items.map(presentSchedule) };
 		},
 	});
 }
-
-
@@ -0,0 +1,108 @@
+import { InterviewStatus, Prisma } from "../../generated/prisma";
+import { transitionSession } from "../ai/lifecycle";
+import { inTransaction, prisma } from "../lib/prisma";
+import { formatInTimeZone } from "../lib/timezone";
+
+export class ScheduleError extends Error {
+	constructor(message: string, readonly statusCode: number, readonly details: Record<string, unknown> = {}) {
+		super(message);
+		this.name = "ScheduleError";
+	}
+}
+
+export interface SlotInput {
+	userId: string;
+	jobId: string;
+	scheduledAt: Date;
+	ignoreScheduleId?: string; // Ao remarcar, o próprio agendamento não conta como conflito
+}
+
+interface ConflictRow {
+	id: string;
+	title: string;
+	scheduledAt: Date;
+}
+
+// Vaga do usuário que pode receber agendamentos
+async function schedulableJob(tx: Prisma.TransactionClient, userId: string, jobId: string) {
+	const job = await tx.job.findFirst({
+		where: { id: jobId, userId, deletedAt: null },
+		select: { id: true, durationMinutes: true, archivedAt: true },
+	});
+	if (!job) throw new ScheduleError("Vaga não encontrada.", 404);
+	if (job.archivedAt) throw new ScheduleError("Vaga arquivada. Restaure-a para agendar entrevistas.", 409);
+	return job;
+}
+
+// Valida o horário (futuro, vaga própria, sem sobreposição) dentro da transação.
+// O bloqueio por usuário faz agendamentos concorrentes esperarem, então dois horários
+// sobrepostos nunca passam juntos pela verificação.
+export async function assertSlotAvailable(tx: Prisma.TransactionClient, input: SlotInput): Promise<void> {
+	if (input.scheduledAt.getTime() <= Date.now()) {
+		throw new ScheduleError("A data do agendamento deve estar no futuro.", 400);
+	}
+
+	const job = await schedulableJob(tx, input.userId, input.jobId);
+	await tx.$queryRaw`SELECT 1 AS "locked" FROM pg_advisory_xact_lock(hashtext(${`schedule:${input.userId}`}))`;
+
+	const end = new Date(input.scheduledAt.getTime() + job.durationMinutes * 60 * 1000);
+	const [conflict] = await tx.$queryRaw<ConflictRow[]>`
+		SELECT s."id", s."title", s."scheduledAt"
+		FROM "public"."Schedule" s
+		JOIN "public"."Job" j ON j."id" = s."jobId"
+		WHERE s."userId" = ${input.userId}
+			AND s."status" = 'SCHEDULED'
+			AND s."id" <> ${input.ignoreScheduleId ?? ""}
+			AND s."scheduledAt" < ${end}
+			AND s."scheduledAt" + make_interval(mins => j."durationMinutes") > ${input.scheduledAt}
+		ORDER BY s."scheduledAt"
+		LIMIT 1`;
+
+	if (conflict) {
+		throw new ScheduleError("O horário se sobrepõe a outro agendamento.", 409, { conflictingSchedule: conflict });
+	}
+}
+
+// Bloqueia a sessão do horário até o fim da transação, para que ela não seja iniciada
+// enquanto o agendamento muda; entrevistas já iniciadas não podem ser remarcadas nem canceladas
+export async function lockUnstartedSession(tx: Prisma.TransactionClient, sessionId: string | null): Promise<InterviewStatus | null> {
+	if (!sessionId) return null;
+	const [session] = await tx.$queryRaw<{ status: InterviewStatus }[]>`
+		SELECT "status" FROM "public"."InterviewSession" WHERE "id" = ${sessionId} FOR UPDATE`;
+	if (!session) return null;
+	if (session.status !== "SCHEDULED" && session.status !== "CANCELLED") {
+		throw new ScheduleError("A entrevista deste agendamento já foi iniciada.", 409);
+	}
+	return session.status;
+}
+
+// Cancela o agendamento e a sessão de entrevista do horário; a transição da sessão
+// devolve os créditos que estiverem reservados para ela
+export async function cancelSchedule(
+	scheduleId: string,
+	reason: string,
+	client: Prisma.TransactionClient = prisma,
+): Promise<boolean> {
+	return inTransaction(client, async (tx) => {
+		const schedule = await tx.schedule.findUnique({ where: { id: scheduleId }, select: { sessionId: true } });
+		if (!schedule) return false;
+
+		const sessionStatus = await lockUnstartedSession(tx, schedule.sessionId);
+
+		const { count } = await tx.schedule.updateMany({
+			where: { id: scheduleId, status: "SCHEDULED" },
+			data: { status: "CANCELLED", cancelledAt: new Date(), sequence: { increment: 1 } },
+		});
+		if (count === 0) return false;
+
+		if (schedule.sessionId && sessionStatus === "SCHEDULED") {
+			await transitionSession(schedule.sessionId, "CANCELLED", { endedAt: new Date() }, tx, reason);
+		}
+		return true;
+	});
+}
+
+// Acrescenta o horário local, com o deslocamento explícito, no fuso em que o agendamento foi marcado
+export function presentSchedule<T extends { scheduledAt: Date; timezone: string }>(schedule: T) {
+	return { ...schedule, scheduledAtLocal: formatInTimeZone(schedule.scheduledAt, schedule.timezone) };
+}
@@ -2,6 +2,7 @@ import "dotenv/config";
 import Fastify, { FastifyInstance } from "fastify";
 import cors from "@fastify/cors";
 import { registerRoutes } from "./setupRoutes";
+import { registerSchedulers } from "./setupSchedulers";
 
 async function buildServer(): Promise<FastifyInstance> {
     const app = Fastify({ logger: true });
@@ -12,6 +13,7 @@ async function buildServer(): Promise<FastifyInstance> {
     });
 
     registerRoutes(app);
+    registerSchedulers(app);
     return app;
 }
 
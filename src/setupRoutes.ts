@@ -1,4 +1,5 @@
 import { FastifyInstance } from "fastify";
+import { auth } from "./lib/auth";
 import { usersRoutes } from "./users/routes";
 import { jobsRoutes } from "./jobs/routes";
 import { schedulesRoutes } from "./schedules/routes";
@@ -6,8 +7,12 @@ import { authRoutes } from "./auth/routes";
 import { aiRoutes } from "./ai/routes";
 import { creditsRoutes } from "./credits/routes";
 import { paymentsRoutes } from "./payments/routes"; 
+import { rubricsRoutes } from "./rubrics/routes";
+import { couponsRoutes } from "./coupons/routes";
+import { subscriptionsRoutes } from "./subscriptions/routes";
 
 export function registerRoutes(app: FastifyInstance): void {
+    app.register(auth);
     app.register(usersRoutes, { prefix: "/users" });
     app.register(jobsRoutes, { prefix: "/jobs" });
     app.register(schedulesRoutes, { prefix: "/schedules" });
@@ -15,4 +20,7 @@ export function registerRoutes(app: FastifyInstance): void {
     app.register(aiRoutes, { prefix: "/ai" });
     app.register(creditsRoutes, { prefix: "/credits" });
     app.register(paymentsRoutes, { prefix: "/payments" });
+    app.register(rubricsRoutes, { prefix: "/rubrics" });
+    app.register(couponsRoutes, { prefix: "/coupons" });
+    app.register(subscriptionsRoutes, { prefix: "/subscriptions" });
 }
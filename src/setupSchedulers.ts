@@ -0,0 +1,23 @@
+import { FastifyInstance } from "fastify";
+import { expireOverdueSessions } from "./ai/lifecycle";
+import { refreshBalanceSnapshots } from "./credits/ledger";
+import { expireCreditLots } from "./credits/lots";
+import { settleStaleReservations } from "./credits/reservations";
+import { purgeExpiredIdempotencyKeys } from "./lib/idempotency";
+import { scheduleTask, stopScheduledTasks } from "./lib/scheduler";
+import { expirePendingPayments } from "./payments/expiry";
+import { renewSubscriptions } from "./subscriptions/billing";
+
+export function registerSchedulers(app: FastifyInstance): void {
+    scheduleTask("expire-interviews", 60_000, expireOverdueSessions);
+    scheduleTask("settle-credit-reservations", 5 * 60_000, settleStaleReservations);
+    scheduleTask("balance-snapshots", 10 * 60_000, refreshBalanceSnapshots);
+    scheduleTask("purge-idempotency-keys", 60 * 60_000, purgeExpiredIdempotencyKeys);
+    scheduleTask("expire-pending-payments", 5 * 60_000, expirePendingPayments);
+    scheduleTask("renew-subscriptions", 10 * 60_000, renewSubscriptions);
+    scheduleTask("expire-credit-lots", 60 * 60_000, expireCreditLots);
+
+    app.addHook("onClose", async () => {
+        stopScheduledTasks();
+    });
+}
@@ -0,0 +1,187 @@
+import { Prisma, Subscription, SubscriptionPlan } from "../../generated/prisma";
+import { prisma } from "../lib/prisma";
+import { paymentDeadline, pendingExpiration } from "../payments/expiry";
+import { PaymentMethod, PaymentNextAction, getPaymentProvider } from "../payments/gateway";
+import { pixQrCodeImage } from "../payments/pix";
+import { settlePayment } from "../payments/settlement";
+import { addDays } from "./subscriptions";
+
+// Dias em que uma assinatura pode ficar com o pagamento em atraso antes de ser cancelada
+function graceDays(): number {
+  const value = Number(process.env.SUBSCRIPTION_GRACE_DAYS);
+  return Number.isFinite(value) && value > 0 ? value : 7;
+}
+
+export interface SubscriptionCharge {
+  transactionId: string;
+  provider: string;
+  paymentId: string;
+  status: string;
+  amount: number;
+  currency: "BRL";
+  paymentMethod: PaymentMethod;
+  clientSecret: string | null;
+  nextAction: PaymentNextAction | null;
+  expiresAt: Date;
+}
+
+// Cria a cobrança de um período no provedor. Com cartão salvo, a cobrança é
+// confirmada na hora; PIX e boleto ficam pendentes até o webhook.
+export async function createSubscriptionCharge(
+  subscription: Subscription & { plan: SubscriptionPlan },
+  user: { fullName: string; email: string },
+): Promise<SubscriptionCharge> {
+  const provider = getPaymentProvider();
+  const paymentMethod = subscription.paymentMethod as PaymentMethod;
+  const { plan } = subscription;
+  const deadline = paymentDeadline(paymentMethod);
+
+  const transaction = await prisma.creditTransaction.create({
+    data: {
+      type: "PURCHASE",
+      status: "PENDING",
+      amount: 0,
+      price: plan.price,
+      userId: subscription.userId,
+      subscriptionId: subscription.id,
+      paymentProvider: provider.name,
+      expiresAt: pendingExpiration(paymentMethod, deadline),
+      metadata: {
+        paymentMethod,
+        planName: plan.name,
+        createdAt: new Date().toISOString(),
+      },
+    },
+  });
+
+  let intent;
+  try {
+    intent = await provider.createIntent({
+      transactionId: transaction.id,
+      amountCents: plan.price.mul(100).toNumber(),
+      currency: "BRL",
+      method: paymentMethod,
+      description: `Assinatura ${plan.name} (${plan.monthlyCredits} créditos/mês)`,
+      customer: { name: user.fullName, email: user.email },
+      deadline,
+    });
+  } catch (error: unknown) {
+    await settlePayment(transaction.id, "failed", { failureReason: (error as Error).message });
+    throw error;
+  }
+
+  await prisma.creditTransaction.update({
+    where: { id: transaction.id },
+    data: {
+      paymentId: intent.id,
+      ...(intent.nextAction && {
+        metadata: {
+          ...(transaction.metadata as Prisma.JsonObject),
+          nextAction: intent.nextAction as unknown as Prisma.InputJsonObject,
+        },
+      }),
+    },
+  });
+
+  if (paymentMethod === "credit_card" && subscription.paymentMethodId && provider.confirmIntent) {
+    intent = await provider.confirmIntent(intent.id, subscription.paymentMethodId);
+    await settlePayment(transaction.id, intent.status, { paymentMethodId: subscription.paymentMethodId });
+  }
+
+  let nextAction = intent.nextAction ?? null;
+  if (nextAction?.type === "pix" && !nextAction.qrCodeImage) {
+    nextAction = { ...nextAction, qrCodeImage: await pixQrCodeImage(nextAction.brCode) };
+  }
+
+  return {
+    transactionId: transaction.id,
+    provider: provider.name,
+    paymentId: intent.id,
+    status: intent.status,
+    amount: plan.price.toNumber(),
+    currency: "BRL",
+    paymentMethod,
+    clientSecret: intent.clientSecret ?? null,
+    nextAction,
+    expiresAt: deadline,
+  };
+}
+
+// Cancela no provedor e localmente as cobranças ainda pendentes da assinatura
+export async function cancelPendingCharges(subscriptionId: string, reason: string): Promise<void> {
+  const provider = getPaymentProvider();
+  const pending = await prisma.creditTransaction.findMany({
+    where: { subscriptionId, type: "PURCHASE", status: "PENDING" },
+    select: { id: true, paymentId: true, paymentProvider: true },
+  });
+
+  for (const charge of pending) {
+    if (charge.paymentId && charge.paymentProvider === provider.name) {
+      try {
+        await provider.cancelIntent(charge.paymentId);
+      } catch (error: unknown) {
+        console.warn(`⚠️ Não foi possível cancelar o pagamento ${charge.paymentId} no provedor:`, error);
+      }
+    }
+    await settlePayment(charge.id, "cancelled", { cancellationReason: reason });
+  }
+}
+
+// Encerra a assinatura imediatamente; os créditos já concedidos continuam no saldo
+export async function endSubscription(subscriptionId: string, reason: string): Promise<boolean> {
+  const { count } = await prisma.subscription.updateMany({
+    where: { id: subscriptionId, status: { not: "CANCELLED" } },
+    data: { status: "CANCELLED", cancelledAt: new Date(), planCredits: 0 },
+  });
+  if (count === 0) return false;
+
+  await cancelPendingCharges(subscriptionId, reason);
+  return true;
+}
+
+// Varredura periódica: encerra os períodos vencidos, cobra as renovações e
+// cancela as assinaturas com pagamento atrasado além do prazo de tolerância
+export async function renewSubscriptions(): Promise<number> {
+  const now = new Date();
+  const due = await prisma.subscription.findMany({
+    where: { status: { in: ["TRIALING", "ACTIVE"] }, currentPeriodEnd: { lte: now } },
+    include: { plan: true, user: { select: { fullName: true, email: true } } },
+    take: 100,
+  });
+
+  let renewed = 0;
+  for (const { user, ...subscription } of due) {
+    if (subscription.cancelAtPeriodEnd) {
+      await endSubscription(subscription.id, "Assinatura cancelada pelo usuário");
+      continue;
+    }
+
+    // A mudança condicional impede cobrança dupla se duas varreduras rodarem juntas
+    const { count } = await prisma.subscription.updateMany({
+      where: { id: subscription.id, status: subscription.status, currentPeriodEnd: subscription.currentPeriodEnd },
+      data: { status: "PAST_DUE", pastDueSince: now },
+    });
+    if (count === 0) continue;
+
+    try {
+      await createSubscriptionCharge(subscription, user);
+      renewed++;
+    } catch (error: unknown) {
+      console.error(`Erro ao cobrar a renovação da assinatura ${subscription.id}:`, error);
+    }
+  }
+
+  const overdue = await prisma.subscription.findMany({
+    where: { status: "PAST_DUE", pastDueSince: { lte: addDays(now, -graceDays()) } },
+    select: { id: true },
+    take: 100,
+  });
+  for (const subscription of overdue) {
+    await endSubscription(subscription.id, "Pagamento da assinatura não realizado");
+  }
+
+  if (renewed > 0 || overdue.length > 0) {
+    console.log(`🔁 ${renewed} renovação(ões) cobrada(s), ${overdue.length} assinatura(s) cancelada(s) por atraso`);
+  }
+  return renewed;
+}
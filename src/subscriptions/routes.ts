@@ -0,0 +1,412 @@
+import { FastifyInstance } from "fastify";
+import { z } from "zod";
+import { Prisma } from "../../generated/prisma";
+import { requireRole } from "../lib/auth";
+import { idempotencyKey, storeIdempotentResponse } from "../lib/idempotency";
+import { prisma } from "../lib/prisma";
+import { PaymentError, getPaymentProvider } from "../payments/gateway";
+import { cancelPendingCharges, createSubscriptionCharge, endSubscription } from "./billing";
+import { SubscriptionError, addDays, grantPeriodCredits } from "./subscriptions";
+
+const PAYMENT_METHODS = ["credit_card", "pix", "boleto"] as const;
+
+const planSelect = {
+  id: true,
+  name: true,
+  description: true,
+  price: true,
+  monthlyCredits: true,
+  rolloverCap: true,
+  trialDays: true,
+};
+
+// Assinatura em aberto (não cancelada) do usuário, com o plano
+function findOpenSubscription(userId: string) {
+  return prisma.subscription.findFirst({
+    where: { userId, status: { not: "CANCELLED" } },
+    include: { plan: true },
+  });
+}
+
+// Valida a forma de pagamento escolhida para a assinatura
+function checkPaymentMethod(paymentMethod: (typeof PAYMENT_METHODS)[number], paymentMethodId?: string): void {
+  const provider = getPaymentProvider();
+  if (!provider.methods.includes(paymentMethod)) {
+    throw new SubscriptionError("Forma de pagamento não suportada pelo provedor configurado.");
+  }
+  // As renovações com cartão são cobradas sem o usuário presente, então o cartão precisa ficar salvo
+  if (paymentMethod === "credit_card" && !paymentMethodId) {
+    throw new SubscriptionError("Informe paymentMethodId para assinar com cartão de crédito.");
+  }
+}
+
+export async function subscriptionsRoutes(app: FastifyInstance): Promise<void> {
+
+  // GET /subscriptions/plans - Listar planos de assinatura disponíveis
+  app.get("/plans", {
+    handler: async () => {
+      const plans = await prisma.subscriptionPlan.findMany({
+        where: { isActive: true },
+        orderBy: { price: "asc" },
+        select: planSelect,
+      });
+
+      return { plans };
+    },
+  });
+
+  // POST /subscriptions/plans - Criar plano de assinatura (admin)
+  app.post<{ Body: unknown }>("/plans", {
+    preHandler: requireRole("ADMIN"),
+    schema: {
+      body: {
+        type: "object",
+        required: ["name", "price", "monthlyCredits"],
+        properties: {
+          name: { type: "string", minLength: 1 },
+          description: { type: "string" },
+          price: { type: "number", exclusiveMinimum: 0 },
+          monthlyCredits: { type: "integer", minimum: 1 },
+          rolloverCap: { type: ["integer", "null"], minimum: 0 },
+          trialDays: { type: "integer", minimum: 0, maximum: 90 },
+        },
+      },
+    },
+    handler: async (request, reply) => {
+      const bodySchema = z.object({
+        name: z.string().min(1),
+        description: z.string().optional(),
+        price: z.number().positive(),
+        monthlyCredits: z.number().int().min(1),
+        rolloverCap: z.number().int().min(0).nullable().optional(),
+        trialDays: z.number().int().min(0).max(90).optional(),
+      });
+
+      const { name, description, price, monthlyCredits, rolloverCap, trialDays } = bodySchema.parse(request.body);
+
+      const plan = await prisma.subscriptionPlan.create({
+        data: {
+          name,
+          description: description || null,
+          price: new Prisma.Decimal(price),
+          monthlyCredits,
+          rolloverCap: rolloverCap ?? null,
+          trialDays: trialDays ?? 0,
+        },
+      });
+
+      return reply.code(201).send(plan);
+    },
+  });
+
+  // PATCH /subscriptions/plans/:id - Atualizar plano de assinatura (admin)
+  // Preço e créditos novos valem a partir da próxima renovação das assinaturas existentes
+  app.patch<{ Params: { id: string }; Body: unknown }>("/plans/:id", {
+    preHandler: requireRole("ADMIN"),
+    schema: {
+      params: {
+        type: "object",
+        required: ["id"],
+        properties: {
+          id: { type: "string", format: "uuid" },
+        },
+      },
+      body: {
+        type: "object",
+        properties: {
+          name: { type: "string", minLength: 1 },
+          description: { type: "string" },
+          price: { type: "number", exclusiveMinimum: 0 },
+          monthlyCredits: { type: "integer", minimum: 1 },
+          rolloverCap: { type: ["integer", "null"], minimum: 0 },
+          trialDays: { type: "integer", minimum: 0, maximum: 90 },
+          isActive: { type: "boolean" },
+        },
+        additionalProperties: false,
+      },
+    },
+    handler: async (request, reply) => {
+      const paramsSchema = z.object({ id: z.string().uuid() });
+      const bodySchema = z
+        .object({
+          name: z.string().min(1).optional(),
+          description: z.string().optional(),
+          price: z.number().positive().optional(),
+          monthlyCredits: z.number().int().min(1).optional(),
+          rolloverCap: z.number().int().min(0).nullable().optional(),
+          trialDays: z.number().int().min(0).max(90).optional(),
+          isActive: z.boolean().optional(),
+        })
+        .strict();
+
+      const { id } = paramsSchema.parse(request.params);
+      const { price, ...fields } = bodySchema.parse(request.body ?? {});
+
+      const data: Prisma.SubscriptionPlanUpdateInput = {};
+      if (fields.name !== undefined) data.name = fields.name;
+      if (fields.description !== undefined) data.description = fields.description;
+      if (price !== undefined) data.price = new Prisma.Decimal(price);
+      if (fields.monthlyCredits !== undefined) data.monthlyCredits = fields.monthlyCredits;
+      if (fields.rolloverCap !== undefined) data.rolloverCap = fields.rolloverCap;
+      if (fields.trialDays !== undefined) data.trialDays = fields.trialDays;
+      if (fields.isActive !== undefined) data.isActive = fields.isActive;
+
+      if (Object.keys(data).length === 0) {
+        return reply.code(400).send({ message: "Nada para atualizar." });
+      }
+
+      try {
+        return await prisma.subscriptionPlan.update({ where: { id }, data });
+      } catch (error: unknown) {
+        if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2025") {
+          return reply.code(404).send({ message: "Plano de assinatura não encontrado." });
+        }
+        console.error("Erro ao atualizar plano de assinatura:", error);
+        return reply.code(500).send({ message: "Erro interno ao atualizar plano de assinatura." });
+      }
+    },
+  });
+
+  // GET /subscriptions/current - Assinatura atual do usuário, com a cobrança pendente, se houver
+  app.get("/current", {
+    handler: async (request) => {
+      const subscription = await prisma.subscription.findFirst({
+        where: { userId: request.user.id, status: { not: "CANCELLED" } },
+        omit: { paymentMethodId: true },
+        include: {
+          plan: { select: planSelect },
+          transactions: {
+            where: { type: "PURCHASE", status: "PENDING" },
+            orderBy: { createdAt: "desc" },
+            take: 1,
+            select: { id: true, price: true, expiresAt: true, metadata: true },
+          },
+        },
+      });
+
+      if (!subscription) {
+        return { subscription: null };
+      }
+
+      const { transactions, ...rest } = subscription;
+      return { subscription: { ...rest, pendingPayment: transactions[0] ?? null } };
+    },
+  });
+
+  // POST /subscriptions - Assinar um plano
+  // Planos com teste gratuito concedem os créditos na hora (apenas na primeira assinatura do usuário);
+  // os demais concedem quando o primeiro pagamento for aprovado
+  app.post<{ Body: unknown }>("/", {
+    preHandler: idempotencyKey,
+    onSend: storeIdempotentResponse,
+    schema: {
+      body: {
+        type: "object",
+        required: ["planId", "paymentMethod"],
+        properties: {
+          planId: { type: "string", format: "uuid" },
+          paymentMethod: { type: "string", enum: PAYMENT_METHODS },
+          paymentMethodId: { type: "string", minLength: 1 },
+        },
+      },
+    },
+    handler: async (request, reply) => {
+      const bodySchema = z.object({
+        planId: z.string().uuid(),
+        paymentMethod: z.enum(PAYMENT_METHODS),
+        paymentMethodId: z.string().min(1).optional(),
+      });
+
+      const { planId, paymentMethod, paymentMethodId } = bodySchema.parse(request.body);
+      const userId = request.user.id;
+
+      try {
+        checkPaymentMethod(paymentMethod, paymentMethodId);
+
+        const [user, plan] = await Promise.all([
+          prisma.user.findUnique({ where: { id: userId }, select: { fullName: true, email: true } }),
+          prisma.subscriptionPlan.findFirst({ where: { id: planId, isActive: true } }),
+        ]);
+
+        if (!user) {
+          return reply.code(404).send({ message: "Usuário não encontrado." });
+        }
+        if (!plan) {
+          return reply.code(404).send({ message: "Plano de assinatura não encontrado ou inativo." });
+        }
+
+        const now = new Date();
+        const hadSubscription = (await prisma.subscription.count({ where: { userId } })) > 0;
+        const trialing = plan.trialDays > 0 && !hadSubscription;
+
+        const subscription = await prisma.$transaction(async (tx) => {
+          const created = await tx.subscription.create({
+            data: {
+              userId,
+              planId,
+              paymentMethod,
+              paymentMethodId: paymentMethodId ?? null,
+              // Sem teste, o período só começa quando o primeiro pagamento for aprovado
+              status: trialing ? "TRIALING" : "PAST_DUE",
+              currentPeriodStart: now,
+              currentPeriodEnd: trialing ? addDays(now, plan.trialDays) : now,
+              trialEndsAt: trialing ? addDays(now, plan.trialDays) : null,
+              pastDueSince: trialing ? null : now,
+            },
+            include: { plan: true },
+          });
+
+          if (!trialing) return created;
+
+          const planCredits = await grantPeriodCredits(tx, created, {
+            start: created.currentPeriodStart,
+            end: created.currentPeriodEnd,
+          });
+          return tx.subscription.update({ where: { id: created.id }, data: { planCredits }, include: { plan: true } });
+        });
+
+        const payment = trialing ? null : await createSubscriptionCharge(subscription, user);
+
+        // A cobrança com cartão salvo pode ter sido aprovada na hora e já iniciado o período
+        const current = await prisma.subscription.findUniqueOrThrow({
+          where: { id: subscription.id },
+          omit: { paymentMethodId: true },
+          include: { plan: { select: planSelect } },
+        });
+        return reply.code(201).send({ subscription: current, payment });
+
+      } catch (error: unknown) {
+        if (error instanceof SubscriptionError) {
+          return reply.code(error.statusCode).send({ message: error.message });
+        }
+        // Índice parcial único: só pode haver uma assinatura em aberto por usuário
+        if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
+          return reply.code(409).send({ message: "Você já possui uma assinatura ativa." });
+        }
+        if (error instanceof PaymentError) {
+          return reply.code(502).send({
+            message: "Erro de comunicação com o provedor de pagamento.",
+            details: error.message,
+          });
+        }
+        console.error("Erro ao criar assinatura:", error);
+        return reply.code(500).send({ message: "Erro interno ao criar assinatura." });
+      }
+    },
+  });
+
+  // POST /subscriptions/current/pay - Gerar nova cobrança para uma assinatura em atraso
+  // Permite trocar a forma de pagamento; cobranças pendentes anteriores são canceladas
+  app.post<{ Body: unknown }>("/current/pay", {
+    preHandler: idempotencyKey,
+    onSend: storeIdempotentResponse,
+    schema: {
+      body: {
+        type: "object",
+        properties: {
+          paymentMethod: { type: "string", enum: PAYMENT_METHODS },
+          paymentMethodId: { type: "string", minLength: 1 },
+        },
+      },
+    },
+    handler: async (request, reply) => {
+      const bodySchema = z.object({
+        paymentMethod: z.enum(PAYMENT_METHODS).optional(),
+        paymentMethodId: z.string().min(1).optional(),
+      });
+
+      const body = bodySchema.parse(request.body ?? {});
+
+      try {
+        const subscription = await findOpenSubscription(request.user.id);
+        if (!subscription) {
+          return reply.code(404).send({ message: "Nenhuma assinatura ativa." });
+        }
+        if (subscription.status !== "PAST_DUE") {
+          return reply.code(409).send({
+            message: "A assinatura não possui pagamento em atraso.",
+            currentStatus: subscription.status,
+          });
+        }
+
+        const paymentMethod = body.paymentMethod ?? (subscription.paymentMethod as (typeof PAYMENT_METHODS)[number]);
+        const paymentMethodId = body.paymentMethodId ?? (body.paymentMethod ? undefined : subscription.paymentMethodId ?? undefined);
+        checkPaymentMethod(paymentMethod, paymentMethodId);
+
+        await cancelPendingCharges(subscription.id, "Substituída por nova cobrança");
+        const updated = await prisma.subscription.update({
+          where: { id: subscription.id },
+          data: { paymentMethod, paymentMethodId: paymentMethodId ?? null },
+          include: { plan: true, user: { select: { fullName: true, email: true } } },
+        });
+
+        const { user, ...rest } = updated;
+        const payment = await createSubscriptionCharge(rest, user);
+        return reply.code(201).send({ subscriptionId: subscription.id, payment });
+
+      } catch (error: unknown) {
+        if (error instanceof SubscriptionError) {
+          return reply.code(error.statusCode).send({ message: error.message });
+        }
+        if (error instanceof PaymentError) {
+          return reply.code(502).send({
+            message: "Erro de comunicação com o provedor de pagamento.",
+            details: error.message,
+          });
+        }
+        console.error("Erro ao cobrar assinatura:", error);
+        return reply.code(500).send({ message: "Erro interno ao cobrar assinatura." });
+      }
+    },
+  });
+
+  // POST /subscriptions/current/cancel - Cancelar a assinatura
+  // Por padrão ela continua até o fim do período pago; assinaturas em atraso são encerradas na hora
+  app.post<{ Body: unknown }>("/current/cancel", {
+    schema: {
+      body: {
+        type: "object",
+        properties: {
+          immediately: { type: "boolean" },
+        },
+      },
+    },
+    handler: async (request, reply) => {
+      const bodySchema = z.object({
+        immediately: z.boolean().default(false),
+      });
+
+      const { immediately } = bodySchema.parse(request.body ?? {});
+
+      const subscription = await findOpenSubscription(request.user.id);
+      if (!subscription) {
+        return reply.code(404).send({ message: "Nenhuma assinatura ativa." });
+      }
+
+      if (immediately || subscription.status === "PAST_DUE") {
+        await endSubscription(subscription.id, "Assinatura cancelada pelo usuário");
+        return {
+          message: "Assinatura cancelada.",
+          subscriptionId: subscription.id,
+          status: "CANCELLED",
+        };
+      }
+
+      const { count } = await prisma.subscription.updateMany({
+        where: { id: subscription.id, status: { in: ["TRIALING", "ACTIVE"] } },
+        data: { cancelAtPeriodEnd: true },
+      });
+      if (count === 0) {
+        return reply.code(409).send({ message: "A assinatura mudou de estado. Tente novamente." });
+      }
+
+      return {
+        message: "A assinatura será encerrada ao fim do período atual.",
+        subscriptionId: subscription.id,
+        status: subscription.status,
+        cancelAtPeriodEnd: true,
+        currentPeriodEnd: subscription.currentPeriodEnd,
+      };
+    },
+  });
+}
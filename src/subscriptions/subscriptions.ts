@@ -0,0 +1,128 @@
+import { CreditTransaction, Prisma, Subscription, SubscriptionPlan } from "../../generated/prisma";
+import { SYSTEM_ACCOUNTS } from "../credits/ledger";
+import { expireUserLots, grantCredits, spendCredits } from "../credits/lots";
+
+export class SubscriptionError extends Error {
+  constructor(message: string, readonly statusCode = 400) {
+    super(message);
+    this.name = "SubscriptionError";
+  }
+}
+
+// Mesmo dia do mês seguinte; em meses mais curtos, o último dia do mês
+export function addMonths(date: Date, months = 1): Date {
+  const result = new Date(date);
+  const day = result.getUTCDate();
+  result.setUTCDate(1);
+  result.setUTCMonth(result.getUTCMonth() + months);
+  const lastDay = new Date(Date.UTC(result.getUTCFullYear(), result.getUTCMonth() + 1, 0)).getUTCDate();
+  result.setUTCDate(Math.min(day, lastDay));
+  return result;
+}
+
+export function addDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * 24 * 60 * 60 * 1000);
+}
+
+// Concede os créditos de um novo período. A sobra é o que resta nos lotes concedidos por esta
+// assinatura (créditos comprados não contam) e fica limitada pelo rolloverCap do plano;
+// o excedente sai desses mesmos lotes com um BONUS negativo.
+// Retorna os créditos do plano disponíveis no novo período.
+export async function grantPeriodCredits(
+  tx: Prisma.TransactionClient,
+  subscription: Subscription & { plan: SubscriptionPlan },
+  period: { start: Date; end: Date },
+): Promise<number> {
+  const { plan, userId } = subscription;
+
+  // Bloqueia o saldo (e baixa lotes vencidos) para que um consumo concorrente não invalide o cálculo da sobra
+  await expireUserLots(tx, userId);
+  const planLots = await tx.creditLot.findMany({
+    where: {
+      userId,
+      remaining: { gt: 0 },
+      transaction: { type: "BONUS", subscriptionId: subscription.id, amount: { gt: 0 } },
+    },
+    select: { remaining: true, transactionId: true },
+  });
+  const unused = planLots.reduce((sum, lot) => sum + lot.remaining, 0);
+
+  const leftover = Math.min(unused, subscription.planCredits);
+  const carried = plan.rolloverCap === null ? leftover : Math.min(leftover, plan.rolloverCap);
+  const forfeited = leftover - carried;
+
+  if (forfeited > 0) {
+    const forfeit = await tx.creditTransaction.create({
+      data: {
+        type: "BONUS",
+        status: "COMPLETED",
+        amount: -forfeited,
+        userId,
+        subscriptionId: subscription.id,
+        metadata: { reason: `Sobra do plano ${plan.name} acima do limite de acúmulo`, rolloverCap: plan.rolloverCap },
+      },
+    });
+    const grantIds = planLots.flatMap((lot) => (lot.transactionId ? [lot.transactionId] : []));
+    const balance = await spendCredits(tx, userId, forfeited, forfeit.id, SYSTEM_ACCOUNTS.SUBSCRIPTIONS, grantIds);
+    if (balance === null) {
+      throw new SubscriptionError("Saldo insuficiente para descontar a sobra do plano.", 409);
+    }
+  }
+
+  const grant = await tx.creditTransaction.create({
+    data: {
+      type: "BONUS",
+      status: "COMPLETED",
+      amount: plan.monthlyCredits,
+      userId,
+      subscriptionId: subscription.id,
+      metadata: {
+        reason: `Plano ${plan.name}`,
+        periodStart: period.start.toISOString(),
+        periodEnd: period.end.toISOString(),
+      },
+    },
+  });
+  await grantCredits(tx, userId, plan.monthlyCredits, grant.id, SYSTEM_ACCOUNTS.SUBSCRIPTIONS);
+
+  return carried + plan.monthlyCredits;
+}
+
+// Chamado quando a cobrança de uma assinatura é aprovada: inicia o novo período e concede os créditos.
+// Um segundo pagamento aprovado enquanto o período atual está pago antecipa o período seguinte.
+export async function activateSubscriptionPeriod(
+  tx: Prisma.TransactionClient,
+  purchase: CreditTransaction,
+): Promise<void> {
+  if (!purchase.subscriptionId) return;
+
+  const subscription = await tx.subscription.findUnique({
+    where: { id: purchase.subscriptionId },
+    include: { plan: true },
+  });
+  if (!subscription) return;
+
+  const now = new Date();
+  const start =
+    subscription.status === "ACTIVE" && subscription.currentPeriodEnd > now ? subscription.currentPeriodEnd : now;
+  const period = { start, end: addMonths(start) };
+
+  // Pagamento que chegou depois do cancelamento (ex.: boleto compensado tarde):
+  // o período pago é concedido, mas a assinatura continua encerrada
+  if (subscription.status === "CANCELLED") {
+    await grantPeriodCredits(tx, { ...subscription, planCredits: 0 }, period);
+    return;
+  }
+
+  const planCredits = await grantPeriodCredits(tx, subscription, period);
+  await tx.subscription.update({
+    where: { id: subscription.id },
+    data: {
+      status: "ACTIVE",
+      currentPeriodStart: period.start,
+      currentPeriodEnd: period.end,
+      pastDueSince: null,
+      planCredits,
+    },
+  });
+}
@@ -2,7 +2,11 @@ import { FastifyInstance } from "fastify";
 import { z } from "zod";
 import bcrypt from "bcrypt";
 import { Prisma } from "../../generated/prisma";
+import { canAccessUser, requireRole } from "../lib/auth";
 import { prisma } from "../lib/prisma";
+import { isValidTimeZone } from "../lib/timezone";
+import { revokeAllSessions } from "../auth/sessions";
+import { sendVerificationEmail } from "../auth/tokens";
 
 export async function usersRoutes(app: FastifyInstance): Promise<void> {
 	app.post<{ Body: unknown }>("/", {
@@ -14,6 +18,7 @@ export async function usersRoutes(app: FastifyInstance): Promise<void> {
 					nome_completo: { type: "string", minLength: 1 },
 					email: { type: "string", format: "email" },
 					senha: { type: "string", minLength: 6 },
+					fuso_horario: { type: "string" },
 				},
 			},
 		},
@@ -22,22 +27,33 @@ export async function usersRoutes(app: FastifyInstance): Promise<void> {
 				nome_completo: z.string().min(1),
 				email: z.string().email(),
 				senha: z.string().min(6),
+				fuso_horario: z.string().optional(),
 			});
-			const { nome_completo, email, senha } = bodySchema.parse(request.body);
+			const { nome_completo, email, senha, fuso_horario } = bodySchema.parse(request.body);
+			if (fuso_horario && !isValidTimeZone(fuso_horario)) {
+				return reply.code(400).send({ message: "Fuso horário inválido." });
+			}
 			const passwordHash = await bcrypt.hash(senha, 10);
 			const user = await prisma.user.create({
 				data: {
 					fullName: nome_completo,
 					email,
 					passwordHash,
+					...(fuso_horario && { timezone: fuso_horario }),
 				},
-				select: { id: true, fullName: true, email: true, createdAt: true },
+				select: { id: true, fullName: true, email: true, timezone: true, createdAt: true },
 			});
+			try {
+				await sendVerificationEmail(user);
+			} catch (err: unknown) {
+				request.log.error({ err }, "Erro ao enviar e-mail de verificação");
+			}
 			return reply.code(201).send(user);
 		},
 	});
 
 	app.get("/", {
+		preHandler: requireRole("ADMIN"),
 		schema: {
 			querystring: {
 				type: "object",
@@ -70,7 +86,7 @@ export async function usersRoutes(app: FastifyInstance): Promise<void> {
 					orderBy: { createdAt: "desc" },
 					skip: (page - 1) * perPage,
 					take: perPage,
-					select: { id: true, fullName: true, email: true, createdAt: true, updatedAt: true },
+					select: { id: true, fullName: true, email: true, role: true, createdAt: true, updatedAt: true },
 				}),
 			]);
 			return {
@@ -95,9 +111,10 @@ export async function usersRoutes(app: FastifyInstance): Promise<void> {
 		handler: async (request, reply) => {
 			const paramsSchema = z.object({ id: z.string().uuid() });
 			const { id } = paramsSchema.parse(request.params);
+			if (!canAccessUser(request, id)) return reply.code(403).send({ message: "Acesso negado." });
 			const user = await prisma.user.findUnique({
 				where: { id },
-				select: { id: true, fullName: true, email: true, createdAt: true, updatedAt: true },
+				select: { id: true, fullName: true, email: true, timezone: true, createdAt: true, updatedAt: true },
 			});
 			if (!user) return reply.code(404).send({ message: "Usuário não encontrado." });
 			return user;
@@ -119,6 +136,7 @@ export async function usersRoutes(app: FastifyInstance): Promise<void> {
 					nome_completo: { type: "string" },
 					email: { type: "string", format: "email" },
 					senha: { type: "string", minLength: 6 },
+					fuso_horario: { type: "string" },
 				},
 				additionalProperties: false,
 			},
@@ -130,27 +148,48 @@ export async function usersRoutes(app: FastifyInstance): Promise<void> {
 					nome_completo: z.string().min(1).optional(),
 					email: z.string().email().optional(),
 					senha: z.string().min(6).optional(),
+					fuso_horario: z.string().optional(),
 				})
 				.strict();
 
 			const { id } = paramsSchema.parse(request.params);
-			const { nome_completo, email, senha } = bodySchema.parse(request.body ?? {});
+			if (!canAccessUser(request, id)) return reply.code(403).send({ message: "Acesso negado." });
+			const { nome_completo, email, senha, fuso_horario } = bodySchema.parse(request.body ?? {});
 
 			const data: Record<string, unknown> = {};
 			if (nome_completo) data.fullName = nome_completo;
-			if (email) data.email = email;
+			if (email) {
+				data.email = email;
+				data.emailVerifiedAt = null;
+			}
 			if (senha) data.passwordHash = await bcrypt.hash(senha, 10);
+			if (fuso_horario) {
+				if (!isValidTimeZone(fuso_horario)) return reply.code(400).send({ message: "Fuso horário inválido." });
+				data.timezone = fuso_horario;
+			}
 
 			if (Object.keys(data).length === 0) {
 				return reply.code(400).send({ message: "Nada para atualizar." });
 			}
 
 			try {
-				const updated = await prisma.user.update({
-					where: { id },
-					data,
-					select: { id: true, fullName: true, email: true, createdAt: true, updatedAt: true },
+				const updated = await prisma.$transaction(async (tx) => {
+					const user = await tx.user.update({
+						where: { id },
+						data,
+						select: { id: true, fullName: true, email: true, timezone: true, createdAt: true, updatedAt: true },
+					});
+					// Troca de senha encerra todas as sessões abertas
+					if (data.passwordHash) await revokeAllSessions(id, tx);
+					return user;
 				});
+				if (email) {
+					try {
+						await sendVerificationEmail(updated);
+					} catch (err: unknown) {
+						request.log.error({ err }, "Erro ao enviar e-mail de verificação");
+					}
+				}
 				return reply.send(updated);
 			} catch (err: unknown) {
 				if (err instanceof Prisma.PrismaClientKnownRequestError) {
@@ -180,23 +219,34 @@ export async function usersRoutes(app: FastifyInstance): Promise<void> {
 		handler: async (request, reply) => {
 			const paramsSchema = z.object({ id: z.string().uuid() });
 			const { id } = paramsSchema.parse(request.params);
+			if (!canAccessUser(request, id)) return reply.code(403).send({ message: "Acesso negado." });
 
-			// Impede exclusão se houver vínculos (jobs/schedules)
-			const [jobsCount, schedulesCount] = await Promise.all([
-				prisma.job.count({ where: { userId: id } }),
-				prisma.schedule.count({ where: { userId: id } }),
+			// O histórico financeiro (transações, lançamentos, documentos fiscais) nunca é apagado,
+			// então usuários com movimentação não podem ser excluídos
+			const [transactionsCount, subscriptionsCount, lotsCount] = await Promise.all([
+				prisma.creditTransaction.count({ where: { userId: id } }),
+				prisma.subscription.count({ where: { userId: id } }),
+				prisma.creditLot.count({ where: { userId: id } }),
 			]);
 
-			if (jobsCount > 0 || schedulesCount > 0) {
+			if (transactionsCount > 0 || subscriptionsCount > 0 || lotsCount > 0) {
 				return reply.code(409).send({
-					message: "Usuário possui registros vinculados (vagas ou agendamentos). Remova-os antes de excluir.",
-					jobsCount,
-					schedulesCount,
+					message: "Usuário possui histórico financeiro e não pode ser excluído.",
+					transactionsCount,
+					subscriptionsCount,
 				});
 			}
 
 			try {
-				await prisma.user.delete({ where: { id } });
+				// Sem histórico financeiro, agendamentos, entrevistas, vagas e roteiros saem junto com o usuário
+				await prisma.$transaction(async (tx) => {
+					await tx.schedule.deleteMany({ where: { userId: id } });
+					await tx.scheduleSeries.deleteMany({ where: { userId: id } });
+					await tx.interviewSession.deleteMany({ where: { userId: id } });
+					await tx.job.deleteMany({ where: { userId: id } });
+					await tx.rubric.deleteMany({ where: { userId: id } });
+					await tx.user.delete({ where: { id } });
+				});
 				return reply.code(204).send();
 			} catch (err: unknown) {
 				if (err instanceof Prisma.PrismaClientKnownRequestError && err.code === "P2025") {